@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { createHash } from "crypto";
+import { Keypair, type PublicKey, SystemProgram } from "@solana/web3.js";
+import iqlabs from "@iqlabs-official/solana-sdk";
+import { DB_ROOT_NAME } from "../typescript/constants";
+import { ChatroomDirectory } from "../typescript/discovery";
+import { IQService } from "../typescript/service";
+import { KeypairSigner } from "../typescript/signers";
+import type { IQChatroom } from "../typescript/types";
+
+const dbRootId = createHash("sha256").update(DB_ROOT_NAME).digest();
+const dbRootPda = iqlabs.contract.getDbRootPda(dbRootId);
+const logger = { info: () => {}, debug: () => {}, warn: () => {}, error: () => {} };
+
+// Table hints stored on the db root, as getTablelistFromRoot returns them (hex)
+const rootHints: string[] = [];
+// Accounts the directory asked for while listing
+const requested: string[] = [];
+// Writer lists of the tables created so far, keyed by table PDA
+const tables: Map<string, PublicKey[]> = new Map();
+
+const connection = {
+  // The account data is just the PDA; decodeTableMeta looks the table up by it
+  getAccountInfo: async (key: PublicKey) => (tables.has(key.toBase58()) ? { data: Buffer.from(key.toBase58()) } : null),
+  getBalance: async () => 10_000_000_000,
+  getTransaction: async () => null,
+  getMultipleAccountsInfo: async (keys: PublicKey[]) => {
+    requested.push(...keys.map((k) => k.toBase58()));
+    return keys.map(() => null);
+  },
+};
+
+// The SDK's exports are getters, so they are swapped out by redefining them
+const originals: [object, string, PropertyDescriptor][] = [];
+function replace(target: object, name: string, value: unknown): void {
+  originals.push([target, name, Object.getOwnPropertyDescriptor(target, name) as PropertyDescriptor]);
+  Object.defineProperty(target, name, { value, configurable: true });
+}
+
+/** A service for one wallet, wired to the fake connection instead of an RPC node */
+function createService(keypair: Keypair): IQService {
+  const runtime = {
+    character: { name: "Agent", settings: {} },
+    getSetting: () => undefined,
+    logger,
+    emitEvent: () => {},
+    getCache: async () => undefined,
+    setCache: async () => true,
+  };
+  const service = new IQService(runtime as never);
+  const signer = new KeypairSigner(keypair);
+  const wallet = keypair.publicKey.toBase58();
+  Object.assign(service, {
+    connection,
+    signer,
+    identities: new Map([["default", { name: "default", displayName: "Agent", signer, wallet }]]),
+    dbRootId,
+    dbRootPda,
+    directory: new ChatroomDirectory({ connection: connection as never, dbRootId, dbRootPda, logger }),
+  });
+  return service;
+}
+
+describe("direct message discovery", () => {
+  beforeAll(() => {
+    replace(iqlabs.writer, "createTable", async (...args: unknown[]) => {
+      const tablePda = iqlabs.contract.getTablePda(dbRootPda, args[3] as Buffer).toBase58();
+      tables.set(tablePda, (args[9] as PublicKey[] | undefined) ?? []);
+      // The table hint is the last argument and is stored as UTF-8 bytes
+      rootHints.push(Buffer.from(args[10] as string, "utf8").toString("hex"));
+      return "CreateTableSignature";
+    });
+    replace(iqlabs.reader, "decodeTableMeta", (data: Buffer) => ({
+      gate: { mint: SystemProgram.programId },
+      writers: tables.get(data.toString()) ?? [],
+      columns: [],
+    }));
+    replace(iqlabs.reader, "getTablelistFromRoot", async () => ({
+      rootPda: dbRootPda,
+      creator: null,
+      tableSeeds: [...rootHints],
+      globalTableSeeds: [...rootHints],
+    }));
+  });
+
+  afterAll(() => {
+    for (const [target, name, descriptor] of originals) Object.defineProperty(target, name, descriptor);
+  });
+
+  it("finds a DM table another wallet opened, and keeps it out of the room listing", async () => {
+    const alice = Keypair.generate();
+    const bob = Keypair.generate();
+    const [a, b] = [alice.publicKey.toBase58(), bob.publicKey.toBase58()].sort();
+    const dmName = `dm:${a}:${b}`;
+
+    const created = await createService(alice).createChatroom(dmName);
+    expect(created.created).toBe(true);
+    expect(Buffer.from(rootHints[0], "hex").toString("utf8")).toBe(dmName);
+
+    // Bob's side discovers the DM from the db root and derives the same table
+    const bobService = createService(bob);
+    const directory = new ChatroomDirectory({ connection: connection as never, dbRootId, dbRootPda, logger });
+    expect(await directory.listDirectMessageTables(bob.publicKey.toBase58())).toEqual([dmName]);
+    expect(await directory.listDirectMessageTables(Keypair.generate().publicKey.toBase58())).toEqual([]);
+
+    const internals = bobService as unknown as {
+      discoverDirectMessages(): Promise<void>;
+      chatrooms: Map<string, IQChatroom>;
+    };
+    await internals.discoverDirectMessages();
+    expect(bobService.getDirectMessageWallets()).toEqual([alice.publicKey.toBase58()]);
+    expect(internals.chatrooms.get(dmName.toLowerCase())?.tablePda).toBe(created.tablePda);
+
+    // DM tables are never looked up for the public listing
+    requested.length = 0;
+    expect(await directory.list(true)).toEqual([]);
+    expect(requested).not.toContain(created.tablePda);
+  });
+
+  it("ignores a DM table someone else created without the two parties as its writers", async () => {
+    const agent = Keypair.generate();
+    const victim = Keypair.generate().publicKey.toBase58();
+    const [a, b] = [agent.publicKey.toBase58(), victim].sort();
+    const dmName = `dm:${a}:${b}`;
+
+    // A third party opens the table first, with no writer list
+    const service = createService(agent);
+    const internals = service as unknown as {
+      deriveChatroom(name: string): IQChatroom;
+      discoverDirectMessages(): Promise<void>;
+      ensureDirectMessageTable(chatroom: IQChatroom): Promise<void>;
+    };
+    const chatroom = internals.deriveChatroom(dmName);
+    tables.set(chatroom.tablePda, []);
+    rootHints.push(Buffer.from(dmName, "utf8").toString("hex"));
+
+    await internals.discoverDirectMessages();
+    expect(service.getDirectMessageWallets()).not.toContain(victim);
+    await expect(internals.ensureDirectMessageTable(chatroom)).rejects.toThrow("not exactly the two DM parties");
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from "bun:test";
+import { EngagementFilter } from "../typescript/engagement";
+import type { IQMessage } from "../typescript/types";
+
+const START = new Date("2025-01-01T00:00:00Z").getTime();
+const AGENT = { name: "Clawd", wallets: ["AgentWallet111"] };
+
+let now = START;
+
+function advance(ms: number): void {
+  now += ms;
+  setSystemTime(new Date(now));
+}
+
+function message(content: string, wallet = "SomeoneElse111"): IQMessage {
+  return { id: "m", agent: "someone", wallet, content, timestamp: new Date(now).toISOString() };
+}
+
+describe("EngagementFilter", () => {
+  beforeEach(() => {
+    now = START;
+    setSystemTime(new Date(now));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it("holds replies to a room during its cooldown", () => {
+    const filter = new EngagementFilter({ "*": { cooldownMs: 30_000, replyProbability: 1 } });
+    expect(filter.evaluate(message("hello"), "General", AGENT, false)).toEqual({ respond: true });
+
+    filter.recordReply("General");
+    advance(29_999);
+    expect(filter.evaluate(message("hello"), "General", AGENT, false)).toEqual({ respond: false, reason: "cooldown" });
+    // Mentions don't skip the cooldown, and other rooms aren't affected
+    expect(filter.evaluate(message("hey Clawd"), "General", AGENT, false).reason).toBe("cooldown");
+    expect(filter.evaluate(message("hello"), "Pump Fun", AGENT, false)).toEqual({ respond: true });
+
+    advance(1);
+    expect(filter.evaluate(message("hello"), "General", AGENT, false)).toEqual({ respond: true });
+  });
+
+  it("stops at maxRepliesPerHour over a sliding hour", () => {
+    const filter = new EngagementFilter({ general: { cooldownMs: 0, maxRepliesPerHour: 2, replyProbability: 1 } });
+
+    filter.recordReply("General");
+    advance(10 * 60_000);
+    filter.recordReply("general");
+    expect(filter.evaluate(message("hi"), "General", AGENT, true)).toEqual({ respond: false, reason: "hourly_limit" });
+
+    // The first reply leaves the window an hour after it was sent
+    advance(50 * 60_000 - 1);
+    expect(filter.evaluate(message("hi"), "General", AGENT, true).reason).toBe("hourly_limit");
+    advance(1);
+    expect(filter.evaluate(message("hi"), "General", AGENT, true)).toEqual({ respond: true });
+  });
+
+  it("lets a room's policy override the wildcard field by field", () => {
+    const filter = new EngagementFilter({
+      "*": { cooldownMs: 60_000, maxRepliesPerHour: 1, ignoredWallets: ["Spammer111"] },
+      "pump fun": { maxRepliesPerHour: 0, ignoredWallets: ["Bot111"] },
+    });
+
+    expect(filter.getPolicy("Pump Fun")).toMatchObject({
+      cooldownMs: 60_000,
+      maxRepliesPerHour: 0,
+      ignoredWallets: ["Spammer111", "Bot111"],
+    });
+  });
+
+  it("treats a zero cooldown or hourly cap as no limit", () => {
+    const filter = new EngagementFilter({ "*": { cooldownMs: 0, maxRepliesPerHour: 0, replyProbability: 1 } });
+    for (let i = 0; i < 50; i++) filter.recordReply("General");
+
+    expect(filter.evaluate(message("hello"), "General", AGENT, false)).toEqual({ respond: true });
+  });
+
+  it("answers mentions but samples other messages by replyProbability", () => {
+    let roll = 0.9;
+    const filter = new EngagementFilter({ "*": { cooldownMs: 0, replyProbability: 0.5 } }, () => roll);
+
+    expect(filter.evaluate(message("hello"), "General", AGENT, false)).toEqual({ respond: false, reason: "probability" });
+    expect(filter.evaluate(message("hello @Clawd"), "General", AGENT, false)).toEqual({ respond: true });
+    expect(filter.evaluate(message("ping AgentWallet111"), "General", AGENT, false)).toEqual({ respond: true });
+    roll = 0.1;
+    expect(filter.evaluate(message("hello"), "General", AGENT, false)).toEqual({ respond: true });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "bun:test";
+import { loadAttachment } from "../typescript/media";
+
+const options = { maxBytes: 1024 };
+
+describe("loadAttachment", () => {
+  it("refuses URLs that point at the agent's own network", async () => {
+    for (const url of [
+      "http://127.0.0.1:8080/admin",
+      "http://localhost/",
+      "http://[::1]/",
+      "http://[::ffff:10.0.0.1]/",
+      "http://169.254.169.254/latest/meta-data/",
+      "https://192.168.1.1/router.png",
+    ]) {
+      await expect(loadAttachment({ url }, options)).rejects.toThrow("not a public address");
+    }
+  });
+
+  it("still reads data: URLs within the size limit", async () => {
+    const loaded = await loadAttachment({ url: "data:text/plain;base64,aGVsbG8=" }, options);
+    expect(loaded.data.toString()).toBe("hello");
+    expect(loaded.mimeType).toBe("text/plain");
+    await expect(loadAttachment({ url: `data:,${"a".repeat(2048)}` }, options)).rejects.toThrow("too large");
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from "bun:test";
+import { OutboundQueue, type OutboundQueueOptions } from "../typescript/outboundQueue";
+import type { IQOutboundItem, IQTransactionRecord } from "../typescript/types";
+
+const START = new Date("2025-01-01T00:00:00Z").getTime();
+const quiet = { debug: () => {}, warn: () => {}, error: () => {} };
+
+let queue: OutboundQueue;
+let now = START;
+
+function advance(ms: number): void {
+  now += ms;
+  setSystemTime(new Date(now));
+}
+
+/** Let the queue's drain loop run until it goes idle */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function item(id: string, chatroom: string): IQOutboundItem {
+  return {
+    id,
+    kind: "message",
+    chatroom,
+    tableSeed: "00",
+    rowJson: "{}",
+    enqueuedAt: now,
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+}
+
+function createQueue(
+  options: Partial<OutboundQueueOptions>,
+  fail: (item: IQOutboundItem) => Error | undefined = () => undefined
+): { queue: OutboundQueue; written: string[] } {
+  const written: string[] = [];
+  const write = async (i: IQOutboundItem): Promise<IQTransactionRecord> => {
+    const error = fail(i);
+    if (error) throw error;
+    written.push(i.id);
+    return {
+      id: i.id,
+      signature: i.id,
+      signatures: [i.id],
+      kind: i.kind,
+      status: "pending",
+      attempts: i.attempts,
+      createdAt: Date.now(),
+    };
+  };
+  queue = new OutboundQueue({
+    perChatroomPerMinute: 10,
+    globalPerMinute: 10,
+    maxAttempts: 3,
+    baseBackoffMs: 1000,
+    write,
+    persist: async () => {},
+    logger: quiet,
+    ...options,
+  });
+  return { queue, written };
+}
+
+describe("OutboundQueue", () => {
+  beforeEach(() => {
+    now = START;
+    setSystemTime(new Date(now));
+  });
+
+  afterEach(() => {
+    queue?.stop();
+    setSystemTime();
+  });
+
+  it("holds a chatroom at its per-minute limit without blocking other rooms", async () => {
+    const { queue, written } = createQueue({ perChatroomPerMinute: 2 });
+    for (const id of ["a1", "a2", "a3"]) void queue.enqueue(item(id, "A"));
+    void queue.enqueue(item("b1", "B"));
+    await settle();
+
+    expect(written).toEqual(["a1", "a2", "b1"]);
+    expect(queue.getDepth()).toBe(1);
+
+    // Still inside the window: a3 keeps waiting
+    advance(59_999);
+    void queue.enqueue(item("b2", "B"));
+    await settle();
+    expect(written).toEqual(["a1", "a2", "b1", "b2"]);
+
+    // The first two writes slide out of the window
+    advance(1);
+    void queue.enqueue(item("c1", "C"));
+    await settle();
+    expect(written).toEqual(["a1", "a2", "b1", "b2", "a3", "c1"]);
+    expect(queue.getDepth()).toBe(0);
+  });
+
+  it("stops every chatroom at the global per-minute limit", async () => {
+    const { queue, written } = createQueue({ globalPerMinute: 2 });
+    for (const room of ["A", "B", "C"]) void queue.enqueue(item(room, room));
+    await settle();
+
+    expect(written).toEqual(["A", "B"]);
+
+    advance(60_000);
+    void queue.enqueue(item("D", "D"));
+    await settle();
+    expect(written).toEqual(["A", "B", "C", "D"]);
+  });
+
+  it("keeps chatroom order while the head item waits", async () => {
+    let failures = 1;
+    const { queue, written } = createQueue({}, (i) =>
+      i.id === "a1" && failures-- > 0 ? new Error("429 Too Many Requests") : undefined
+    );
+    void queue.enqueue(item("a1", "A"));
+    void queue.enqueue(item("a2", "A"));
+    await settle();
+
+    expect(written).toEqual([]);
+    expect(queue.getPending().map((i) => i.id)).toEqual(["a1", "a2"]);
+
+    advance(1000);
+    void queue.enqueue(item("b1", "B"));
+    await settle();
+    expect(written).toEqual(["a1", "a2", "b1"]);
+  });
+
+  it("retries transient errors with doubling backoff", async () => {
+    let failures = 2;
+    const { queue, written } = createQueue({}, (i) =>
+      i.id === "a1" && failures-- > 0 ? new Error("fetch failed") : undefined
+    );
+    const done = queue.enqueue(item("a1", "A"));
+    await settle();
+
+    let [pending] = queue.getPending();
+    expect(pending.attempts).toBe(1);
+    expect(pending.nextAttemptAt).toBe(START + 1000);
+    expect(pending.lastError).toContain("fetch failed");
+
+    // Not due yet
+    advance(999);
+    void queue.enqueue(item("b1", "B"));
+    await settle();
+    [pending] = queue.getPending();
+    expect(pending.attempts).toBe(1);
+
+    advance(1);
+    void queue.enqueue(item("b2", "B"));
+    await settle();
+    [pending] = queue.getPending();
+    expect(pending.attempts).toBe(2);
+    expect(pending.nextAttemptAt).toBe(START + 1000 + 2000);
+
+    advance(2000);
+    void queue.enqueue(item("b3", "B"));
+    await settle();
+    expect((await done).attempts).toBe(3);
+    expect(written).toEqual(["b1", "b2", "a1", "b3"]);
+  });
+
+  it("fails after maxAttempts transient errors", async () => {
+    const { queue } = createQueue({ maxAttempts: 2 }, (i) =>
+      i.id === "a1" ? new Error("503 Service Unavailable") : undefined
+    );
+    const failed = queue.enqueue(item("a1", "A")).catch((error: Error) => error);
+    await settle();
+    expect(queue.getPending()[0].attempts).toBe(1);
+
+    advance(1000);
+    void queue.enqueue(item("b1", "B"));
+    await settle();
+
+    expect(String(await failed)).toContain("503");
+    expect(queue.getPending().map((i) => i.id)).toEqual([]);
+  });
+
+  it("fails at once on errors that are not transient", async () => {
+    const { queue } = createQueue({}, () => new Error("custom program error: 0x1"));
+    const failed = queue.enqueue(item("a1", "A")).catch((error: Error) => error);
+    await settle();
+
+    expect(String(await failed)).toContain("custom program error");
+    expect(queue.getDepth()).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test";
+import { reassembleParts, splitContent } from "../typescript/parts";
+import type { IQMessage } from "../typescript/types";
+
+function part(content: string, index: number, total: number): IQMessage {
+  return {
+    id: `part-${index}`,
+    agent: "Agent",
+    wallet: "wallet",
+    content,
+    timestamp: new Date(1700000000000 + index * 1000).toISOString(),
+    part_group: "group",
+    part_index: index,
+    part_total: total,
+  };
+}
+
+describe("splitContent", () => {
+  it("prefers whitespace boundaries and restores the input when joined", () => {
+    const content = "the quick brown fox jumps over the lazy dog";
+    const parts = splitContent(content, 12);
+
+    expect(parts.every((p) => p.length <= 12)).toBe(true);
+    expect(parts.join("")).toBe(content);
+    expect(parts[0]).toBe("the quick ");
+  });
+
+  it("never cuts inside a surrogate pair", () => {
+    // No whitespace, so the cut is hard; the emoji straddles index 10
+    const content = `${"a".repeat(9)}😀${"b".repeat(9)}`;
+    const parts = splitContent(content, 10);
+
+    expect(parts[0]).toBe("a".repeat(9));
+    expect(parts[1].startsWith("😀")).toBe(true);
+    // A lone surrogate would come back from UTF-8 as U+FFFD
+    expect(parts.every((p) => Buffer.from(p, "utf8").toString("utf8") === p)).toBe(true);
+    expect(parts.join("")).toBe(content);
+  });
+
+  it("splits and reassembles content with an emoji at the boundary", () => {
+    const content = `${"x".repeat(19)}🚀${"y".repeat(19)}🚀${"z".repeat(5)}`;
+    const parts = splitContent(content, 20);
+    const messages = parts.map((p, i) => part(p, i, parts.length));
+    expect(parts.map((p) => p.length)).toEqual([19, 20, 8]);
+
+    const [message] = reassembleParts(messages);
+    expect(message.content).toBe(content);
+    expect(message.partial).toBe(false);
+  });
+
+  it("returns a single empty part for empty content", () => {
+    expect(splitContent("", 10)).toEqual([""]);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, setSystemTime } from "bun:test";
+import { IQService } from "../typescript/service";
+import type { IQMessage, IQReadCursor } from "../typescript/types";
+
+const START = new Date("2025-01-01T00:00:00Z").getTime();
+const logger = { info: () => {}, debug: () => {}, warn: () => {}, error: () => {} };
+
+let now = START;
+
+function advance(ms: number): void {
+  now += ms;
+  setSystemTime(new Date(now));
+}
+
+function message(id: string, time: number): IQMessage {
+  return { id, agent: id, wallet: `${id}Wallet`, content: "hi", timestamp: new Date(time).toISOString() };
+}
+
+function createService(saved?: IQReadCursor) {
+  const runtime = {
+    character: { name: "Agent", settings: {} },
+    getSetting: () => undefined,
+    logger,
+    getCache: async () => saved,
+    setCache: async () => true,
+  };
+  return new IQService(runtime as never) as unknown as {
+    selectUnprocessed(messages: IQMessage[], chatroomName: string): Promise<IQMessage[]>;
+    advanceReadCursor(chatroomName: string, msg: IQMessage): Promise<void>;
+    getReadCursor(chatroomName: string): Promise<IQReadCursor | null>;
+  };
+}
+
+describe("read cursor", () => {
+  beforeEach(() => {
+    now = START;
+    setSystemTime(new Date(now));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it("doesn't let a future-dated message push the cursor past later ones", async () => {
+    const first = message("first", START - 60_000);
+    const service = createService({ lastMessageId: first.id, lastTimestamp: first.timestamp });
+
+    const spoofed = message("spoofed", START + 365 * 24 * 3600_000);
+    const second = message("second", START - 10_000);
+    const unread = await service.selectUnprocessed([spoofed, second, first], "General");
+    expect(unread.map((m) => m.id)).toEqual(["second", "spoofed"]);
+    for (const msg of unread) await service.advanceReadCursor("General", msg);
+    expect((await service.getReadCursor("General"))?.lastTimestamp).toBe(new Date(START).toISOString());
+
+    // A message sent afterwards is still delivered, and the spoofed one isn't replayed
+    advance(60_000);
+    const third = message("third", now);
+    const next = await service.selectUnprocessed([third, spoofed, second, first], "General");
+    expect(next.map((m) => m.id)).toEqual(["third"]);
+  });
+
+  it("pulls a saved cursor that is ahead of the clock back to now", async () => {
+    const service = createService({ lastMessageId: "spoofed", lastTimestamp: new Date(START + 3600_000).toISOString() });
+    const recent = message("recent", START - 1000);
+
+    expect((await service.getReadCursor("General"))?.lastTimestamp).toBe(new Date(START).toISOString());
+    expect(await service.selectUnprocessed([recent], "General")).toEqual([]);
+    advance(1000);
+    const later = message("later", now);
+    expect((await service.selectUnprocessed([later, recent], "General")).map((m) => m.id)).toEqual(["later"]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "bun:test";
+import readMessagesAction from "../actions/readMessages";
+import { IQAmbiguousChatroomError } from "../errors";
+import { RESOLVER_DEFAULTS } from "../typescript/constants";
+import { rankChatrooms, resolveChatroomRef } from "../typescript/resolver";
+
+const ROOMS = ["General", "Pump Fun", "Solana Pumps", "Trading", "Traders"];
+
+describe("rankChatrooms", () => {
+  it("ranks exact over prefix over token over fuzzy matches", () => {
+    const ranked = rankChatrooms("pump", ["Solana Pumps", "Pump Fun", "Pumo"]);
+
+    expect(ranked.map((c) => [c.name, c.match])).toEqual([
+      ["Pump Fun", "prefix"],
+      ["Solana Pumps", "token"],
+      ["Pumo", "fuzzy"],
+    ]);
+    expect(rankChatrooms("pump fun", ROOMS)[0]).toEqual({ name: "Pump Fun", score: 1, match: "exact" });
+  });
+
+  it("lets an alias win over everything but an exact name", () => {
+    expect(rankChatrooms("trad", ROOMS, { trad: "Pump Fun" })[0]).toMatchObject({ name: "Pump Fun", match: "alias" });
+    expect(rankChatrooms("trading", ROOMS, { trading: "Pump Fun" })[0]).toMatchObject({ name: "Trading", match: "exact" });
+  });
+});
+
+describe("resolveChatroomRef", () => {
+  it("resolves a clear winner and reports unknown references", () => {
+    expect(resolveChatroomRef("pump", ROOMS)).toMatchObject({ status: "resolved", chatroom: "Pump Fun" });
+    expect(resolveChatroomRef("genral", ROOMS)).toMatchObject({ status: "resolved", chatroom: "General" });
+    expect(resolveChatroomRef("xyzzy", ROOMS)).toEqual({ status: "not_found", ref: "xyzzy" });
+  });
+
+  it("reports candidates within the ambiguity margin", () => {
+    const resolution = resolveChatroomRef("trad", ROOMS);
+
+    expect(resolution.status).toBe("ambiguous");
+    if (resolution.status !== "ambiguous") return;
+    expect(resolution.candidates.map((c) => c.name).sort()).toEqual(["Traders", "Trading"]);
+  });
+
+  it("resolves when the runner-up is just outside the ambiguity margin", () => {
+    const names = ["Solana", "Solana Degen Traders Club"];
+    const [top, second] = rankChatrooms("sola", names);
+
+    expect(top.score - second.score).toBeGreaterThan(RESOLVER_DEFAULTS.ambiguityMargin);
+    expect(top.score - second.score).toBeLessThan(RESOLVER_DEFAULTS.ambiguityMargin + 0.01);
+    expect(resolveChatroomRef("sola", names)).toMatchObject({ status: "resolved", chatroom: "Solana" });
+  });
+
+  it("is ambiguous when the runner-up is just inside the ambiguity margin", () => {
+    const names = ["Solana", "Sol Memes"];
+    const [top, second] = rankChatrooms("sol", names);
+
+    expect(top.score - second.score).toBeLessThanOrEqual(RESOLVER_DEFAULTS.ambiguityMargin);
+    expect(resolveChatroomRef("sol", names).status).toBe("ambiguous");
+  });
+
+  it("caps the candidates of an ambiguous reference", () => {
+    const names = ["Room A", "Room B", "Room C", "Room D", "Room E", "Room F", "Room G"];
+    const resolution = resolveChatroomRef("room", names);
+
+    expect(resolution.status).toBe("ambiguous");
+    if (resolution.status !== "ambiguous") return;
+    expect(resolution.candidates).toHaveLength(RESOLVER_DEFAULTS.maxCandidates);
+  });
+
+  it("matches references shorter than minPartialLength only exactly or by alias", () => {
+    const short = "ge";
+    expect(short.length).toBeLessThan(RESOLVER_DEFAULTS.minPartialLength);
+
+    expect(resolveChatroomRef(short, ROOMS).status).toBe("not_found");
+    expect(resolveChatroomRef("gm", ["GM"])).toMatchObject({ status: "resolved", chatroom: "GM" });
+    expect(resolveChatroomRef("pf", ROOMS, { pf: "Pump Fun" })).toMatchObject({
+      status: "resolved",
+      chatroom: "Pump Fun",
+      candidate: { match: "alias" },
+    });
+    // At the minimum length partial matches apply
+    expect(resolveChatroomRef("gen", ROOMS)).toMatchObject({ status: "resolved", chatroom: "General" });
+  });
+});
+
+describe("READ_IQ_MESSAGES with an ambiguous room", () => {
+  it("returns the candidates when the service throws from the plugin entry's copy of the errors", async () => {
+    // The plugin entry loads ../errors while actions import ../typescript/errors
+    const service = {
+      getDefaultChatroom: () => "General",
+      resolveChatroom: (ref: string) => {
+        throw new IQAmbiguousChatroomError(ref, ["Pump Fun", "Solana Pumps"]);
+      },
+    };
+    const runtime = { getService: () => service };
+
+    const result = await readMessagesAction.handler(
+      runtime as never,
+      { content: { text: "read pump" } } as never,
+      undefined,
+      { chatroom: "pump" }
+    );
+    expect(result).toMatchObject({ success: false, candidates: ["Pump Fun", "Solana Pumps"] });
+  });
+});
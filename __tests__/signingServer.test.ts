@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { Keypair, SystemProgram, Transaction } from "@solana/web3.js";
+import bs58 from "bs58";
+import { RemoteSigner, verifyEd25519 } from "../typescript/signers";
+import { type StubSigningServer, startStubSigningServer } from "../typescript/signingServer";
+
+const keypair = Keypair.generate();
+const wallet = keypair.publicKey.toBase58();
+
+let server: StubSigningServer | undefined;
+
+function transferFrom(payer: Keypair): Transaction {
+  const tx = new Transaction({
+    feePayer: payer.publicKey,
+    recentBlockhash: bs58.encode(Buffer.alloc(32, 1)),
+  });
+  tx.add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 }));
+  return tx;
+}
+
+describe("RemoteSigner with the stub signing server", () => {
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("signs messages and transactions", async () => {
+    server = await startStubSigningServer(keypair, { authToken: "secret" });
+    const signer = new RemoteSigner({ url: server.url, publicKey: wallet, authToken: "secret" });
+
+    const message = Buffer.from("hello");
+    expect(verifyEd25519(keypair.publicKey, message, await signer.signMessage(message))).toBe(true);
+
+    const tx = await signer.signTransaction(transferFrom(keypair));
+    expect(tx.verifySignatures()).toBe(true);
+  });
+
+  it("gives up when the endpoint doesn't answer in time", async () => {
+    server = await startStubSigningServer(keypair, { responseDelayMs: 500 });
+    const signer = new RemoteSigner({ url: server.url, publicKey: wallet, timeoutMs: 50 });
+
+    const started = Date.now();
+    await expect(signer.signMessage(Buffer.from("hello"))).rejects.toThrow();
+    expect(Date.now() - started).toBeLessThan(400);
+  });
+
+  it("reports requests the endpoint rejects", async () => {
+    server = await startStubSigningServer(keypair, { authToken: "secret" });
+
+    const unauthorized = new RemoteSigner({ url: server.url, publicKey: wallet, authToken: "wrong" });
+    await expect(unauthorized.signMessage(Buffer.from("hello"))).rejects.toThrow("Remote signer responded 401");
+
+    // The endpoint only signs for its own wallet, and only transactions that need it
+    const other = Keypair.generate();
+    const otherWallet = new RemoteSigner({ url: server.url, publicKey: other.publicKey.toBase58(), authToken: "secret" });
+    await expect(otherWallet.signMessage(Buffer.from("hello"))).rejects.toThrow("Remote signer responded 400");
+
+    const signer = new RemoteSigner({ url: server.url, publicKey: wallet, authToken: "secret" });
+    await expect(signer.signTransaction(transferFrom(other))).rejects.toThrow("Remote signer responded 400");
+  });
+});
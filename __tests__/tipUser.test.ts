@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test";
+import tipUserAction from "../actions/tipUser";
+import { IQService } from "../typescript/service";
+
+const ALLOWED = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+const logger = { info: () => {}, debug: () => {}, warn: () => {}, error: () => {} };
+
+/** A runtime whose service can send, with ALLOWED as the only wallet that may ask for tips from IQ chat */
+function createRuntime() {
+  const runtime = {
+    character: { name: "Agent", settings: {} },
+    getSetting: (key: string) => (key === "IQ_TIP_ALLOWED_WALLETS" ? ALLOWED : undefined),
+    logger,
+    getService: () => service,
+  };
+  const service = new IQService(runtime as never);
+  Object.assign(service, { getCapabilities: () => ({ sendMessages: true }) });
+  return runtime;
+}
+
+const runtime = createRuntime();
+
+async function validates(text: string, content: Record<string, unknown> = {}): Promise<boolean> {
+  return tipUserAction.validate(runtime as never, { content: { text, ...content } } as never);
+}
+
+describe("TIP_IQ_USER validate", () => {
+  it("accepts an explicit tip with an amount", async () => {
+    expect(await validates("Tip the last person who spoke in General 0.01 SOL")).toBe(true);
+    expect(await validates("tip alice .5")).toBe(true);
+    expect(await validates("Send 0.02SOL to 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU as a tip")).toBe(true);
+  });
+
+  it("ignores ordinary chat about paying, rewards or sending SOL", async () => {
+    expect(await validates("I'll pay you back 5 SOL tomorrow")).toBe(false);
+    expect(await validates("the staking reward is 2 sol a week")).toBe(false);
+    expect(await validates("send 1 sol to the treasury")).toBe(false);
+    expect(await validates("multiple tips and tricks for 2025")).toBe(false);
+  });
+
+  it("needs an amount, not the digits of a wallet address", async () => {
+    expect(await validates("tip alice")).toBe(false);
+    expect(await validates("tip 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU")).toBe(false);
+    expect(await validates("any tips on the stepped pricing?")).toBe(false);
+  });
+
+  it("only takes tips asked for in IQ chat from verified, allow-listed wallets", async () => {
+    const text = "tip alice 0.05 SOL";
+    const fromIq = (wallet: string, verified: boolean) => ({ source: "iq", metadata: { wallet, verified } });
+
+    expect(await validates(text, fromIq(ALLOWED, true))).toBe(true);
+    expect(await validates(text, fromIq(ALLOWED, false))).toBe(false);
+    expect(await validates(text, fromIq("SomeoneElse111", true))).toBe(false);
+    expect(await validates(text, { source: "iq" })).toBe(false);
+  });
+});
+
+describe("resolveTipRecipient", () => {
+  it("skips senders that fail verification", async () => {
+    const service = createRuntime().getService();
+    const message = (id: string, agent: string, wallet: string, at: string) => ({
+      id,
+      agent,
+      wallet,
+      content: "gm",
+      timestamp: `2025-01-01T00:0${at}:00.000Z`,
+    });
+    Object.assign(service, {
+      readMessages: async () => [
+        message("real", "alice", "AliceWallet111", "1"),
+        // Newer rows claiming a wallet they can't prove
+        message("forged", "alice", "ForgedWallet111", "2"),
+        message("forged-latest", "bob", "ForgedWallet111", "3"),
+      ],
+      chatrooms: new Map([["general", { name: "General" }]]),
+      verifier: { verify: async (msg: { wallet: string }) => ({ verified: msg.wallet === "AliceWallet111" }) },
+    });
+
+    expect((await service.resolveTipRecipient("alice", "General")).wallet).toBe("AliceWallet111");
+    expect((await service.resolveTipRecipient("the last person who spoke in General")).wallet).toBe("AliceWallet111");
+  });
+});
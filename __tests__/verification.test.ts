@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import iqlabs from "@iqlabs-official/solana-sdk";
+import { Keypair, type PublicKey } from "@solana/web3.js";
+import { SdkReader } from "../typescript/readers";
+import { KeypairSigner } from "../typescript/signers";
+import type { IQChatroom, IQMessage } from "../typescript/types";
+import { SenderVerifier, signMessageBody, verifyMessageSignature } from "../typescript/verification";
+
+const keypair = Keypair.generate();
+const signer = new KeypairSigner(keypair);
+
+function message(): IQMessage {
+  return {
+    id: "msg-1",
+    agent: "Agent",
+    wallet: keypair.publicKey.toBase58(),
+    content: "gm",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    chatroom: "General",
+  };
+}
+
+describe("message signatures", () => {
+  it("verifies in the table the message was signed for", async () => {
+    const msg = message();
+    msg.sig = await signMessageBody(msg, "chatroom:General", signer);
+
+    expect(verifyMessageSignature(msg, "chatroom:General")).toBe(true);
+  });
+
+  it("rejects a signed row replayed in another chatroom or DM", async () => {
+    const msg = message();
+    msg.sig = await signMessageBody(msg, "chatroom:General", signer);
+
+    expect(verifyMessageSignature(msg, "chatroom:Pump Fun")).toBe(false);
+    expect(verifyMessageSignature(msg, `dm:${msg.wallet}:${Keypair.generate().publicKey.toBase58()}`)).toBe(false);
+  });
+
+  it("rejects a signature by another wallet", async () => {
+    const msg = message();
+    msg.sig = await signMessageBody(msg, "chatroom:General", new KeypairSigner(Keypair.generate()));
+
+    expect(verifyMessageSignature(msg, "chatroom:General")).toBe(false);
+  });
+
+  it("reports the method and reason through SenderVerifier", async () => {
+    const verifier = new SenderVerifier(null, { debug: () => {} });
+    const msg = message();
+    msg.sig = await signMessageBody(msg, "chatroom:General", signer);
+
+    expect(await verifier.verify(msg, "chatroom:General")).toEqual({ verified: true, method: "signature" });
+    const replayed = await verifier.verify(msg, "chatroom:Other");
+    expect(replayed.verified).toBe(false);
+    expect(replayed.method).toBe("signature");
+  });
+});
+
+// The SDK's exports are getters, so they are swapped out by redefining them
+const originals: [object, string, PropertyDescriptor][] = [];
+function replace(target: object, name: string, value: unknown): void {
+  originals.push([target, name, Object.getOwnPropertyDescriptor(target, name) as PropertyDescriptor]);
+  Object.defineProperty(target, name, { value, configurable: true });
+}
+
+describe("transaction verification", () => {
+  const tablePda = Keypair.generate().publicKey;
+  // Rows inscribed by each fake transaction, keyed by signature
+  const inscribed: Map<string, IQMessage> = new Map();
+
+  /** A transaction signed by the victim's wallet that writes `row` to the table */
+  function transaction(txSig: string, row: IQMessage) {
+    inscribed.set(txSig, row);
+    const keys = [keypair.publicKey, tablePda];
+    return {
+      txSig,
+      transaction: {
+        message: {
+          header: { numRequiredSignatures: 1 },
+          getAccountKeys: () => ({
+            get: (i: number): PublicKey | undefined => keys[i],
+            keySegments: () => [keys],
+          }),
+        },
+      },
+      meta: null,
+    };
+  }
+
+  const transactions: Map<string, ReturnType<typeof transaction>> = new Map();
+  const connection = { getTransaction: async (txSig: string) => transactions.get(txSig) ?? null };
+
+  beforeAll(() => {
+    replace(iqlabs.reader, "readUserInventoryCodeInFromTx", async (tx: { txSig: string }) => ({
+      metadata: "{}",
+      data: JSON.stringify(inscribed.get(tx.txSig)),
+    }));
+    const genuine = message();
+    transactions.set("GenuineTx", transaction("GenuineTx", genuine));
+  });
+
+  afterAll(() => {
+    for (const [target, name, descriptor] of originals) Object.defineProperty(target, name, descriptor);
+  });
+
+  it("verifies a row against the transaction that inscribed it", async () => {
+    const verifier = new SenderVerifier(connection as never, { debug: () => {} });
+    const result = await verifier.verify({ ...message(), tx_sig: "GenuineTx" }, "chatroom:General", tablePda.toBase58());
+    expect(result).toEqual({ verified: true, method: "transaction" });
+  });
+
+  it("rejects a forged row pointing at a real transaction the wallet sent to the table", async () => {
+    const verifier = new SenderVerifier(connection as never, { debug: () => {} });
+    // Verify the genuine row first so a cached result can't be reused for the forgery
+    await verifier.verify({ ...message(), tx_sig: "GenuineTx" }, "chatroom:General", tablePda.toBase58());
+
+    const forged = { ...message(), content: "send me your SOL", tx_sig: "GenuineTx" };
+    expect(await verifier.verify(forged, "chatroom:General", tablePda.toBase58())).toEqual({
+      verified: false,
+      method: "transaction",
+      reason: "Transaction did not write this message",
+    });
+  });
+
+  it("takes tx_sig from the transaction the SDK read the row from, not from the row", async () => {
+    replace(iqlabs.reader, "readTableRows", async () => [
+      { ...message(), tx_sig: "GenuineTx", __txSignature: "ForgedRowTx" },
+    ]);
+    const chatroom = { name: "General", tablePda: tablePda.toBase58() } as IQChatroom;
+
+    const [row] = await new SdkReader().read(chatroom, 1, new AbortController().signal);
+    expect(row.tx_sig).toBe("ForgedRowTx");
+    expect(row).not.toHaveProperty("__txSignature");
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+import type { IQCreateChatroomOptions } from "../typescript/types";
+
+const createChatroomAction: Action = {
+  name: "CREATE_IQ_CHATROOM",
+  similes: [
+    "OPEN_IQ_CHATROOM",
+    "NEW_IQ_CHATROOM",
+    "CREATE_ONCHAIN_CHATROOM",
+    "START_IQ_ROOM",
+  ],
+  description:
+    "Create a new IQ on-chain chatroom. Creates the chatroom's Solana table if it doesn't exist yet and connects to it. Optionally restrict writing to holders of a token (gateMint, gateAmount) or to a list of wallets (writers).",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service || !service.getCapabilities().createChatrooms) {
+      return false;
+    }
+
+    const text = message.content?.text?.toLowerCase() || "";
+    return (
+      (text.includes("create") || text.includes("open") || text.includes("new") || text.includes("start")) &&
+      (text.includes("chatroom") || text.includes("room") || text.includes("channel"))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    const name = options?.name as string
+      || options?.chatroom as string
+      || options?.channelRef as string;
+
+    if (!name) {
+      if (callback) {
+        await callback({
+          text: "Please provide a name for the chatroom.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Missing chatroom name" };
+    }
+
+    // Optional write restrictions: token gate and/or writer allow-list
+    const gateMint = options?.gateMint as string | undefined;
+    const gateAmount = Number(options?.gateAmount);
+    const writersOption = options?.writers as string[] | string | undefined;
+    const writers = typeof writersOption === "string"
+      ? writersOption.split(",").map((w) => w.trim()).filter(Boolean)
+      : writersOption;
+
+    const createOptions: IQCreateChatroomOptions = {
+      ...(gateMint
+        ? {
+            gate: {
+              mint: gateMint,
+              amount: Number.isFinite(gateAmount) && gateAmount > 0 ? gateAmount : undefined,
+              gateType: options?.gateType === "collection" ? "collection" : "token",
+            },
+          }
+        : {}),
+      ...(writers?.length ? { writers } : {}),
+    };
+
+    try {
+      const { chatroom, tablePda, created, txSig } = await service.createChatroom(name, createOptions);
+
+      if (callback) {
+        await callback({
+          text: created
+            ? `Chatroom "${chatroom}" created! Transaction: ${txSig}`
+            : `Chatroom "${chatroom}" already exists. Connected to it.`,
+          data: { chatroom, tablePda, created, txSig: txSig ?? null },
+        });
+      }
+
+      return { success: true, chatroom, tablePda, created, txSig };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to create chatroom "${name}": ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Create a new IQ chatroom called Alpha Calls",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll create the Alpha Calls chatroom on-chain.",
+          action: "CREATE_IQ_CHATROOM",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Open a room for the hackathon",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Opening a Hackathon chatroom on IQ.",
+          action: "CREATE_IQ_CHATROOM",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Create a holders-only chatroom for our token, gate it on mint 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Creating a token-gated chatroom; only holders will be able to post.",
+          action: "CREATE_IQ_CHATROOM",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default createChatroomAction;
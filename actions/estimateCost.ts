@@ -0,0 +1,148 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+import { formatCostEstimate } from "../typescript/simulation";
+
+const estimateCostAction: Action = {
+  name: "ESTIMATE_IQ_COST",
+  similes: [
+    "ESTIMATE_COST",
+    "ESTIMATE_FEE",
+    "HOW_MUCH_TO_POST",
+    "SIMULATE_WRITE",
+    "COST_TO_INSCRIBE",
+  ],
+  description:
+    "Estimate what posting a message to a chatroom, or inscribing data to a table, would cost in SOL. The write is built and simulated on-chain without being sent, and the network fee plus any rent is reported.",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service || service.isReadOnly()) {
+      return false;
+    }
+
+    const text = message.content?.text?.toLowerCase() || "";
+    return (
+      text.includes("cost") ||
+      text.includes("how much") ||
+      text.includes("estimate") ||
+      text.includes("fee") ||
+      text.includes("simulate")
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    // A table (or data without content) means an inscription; anything else is a message
+    const table = options?.table as string | undefined;
+    const content = options?.content as string
+      || options?.message as string
+      || options?.data as string;
+    const inscription = Boolean(table) || (!options?.content && !options?.message && Boolean(options?.data));
+    const chatroom = options?.channelRef as string
+      || options?.chatroom as string
+      || options?.channel as string
+      || undefined;
+    const identity = options?.identity as string | undefined;
+
+    if (!content) {
+      if (callback) {
+        await callback({
+          text: "What should I estimate? Give the message (and chatroom) or the data (and table).",
+          error: true,
+        });
+      }
+      return { success: false, error: "Missing content" };
+    }
+
+    try {
+      const estimate = inscription
+        ? await service.estimateInscriptionCost(content, table || "default", identity)
+        : await service.estimateWriteCost(content, chatroom, identity);
+      const target = inscription ? `inscribing to "${table || "default"}"` : `posting${chatroom ? ` in "${chatroom}"` : ""}`;
+      const summary = formatCostEstimate(estimate);
+
+      if (callback) {
+        await callback({
+          text: `Estimated cost of ${target}: ${summary}`,
+          data: { ...estimate, summary },
+        });
+      }
+
+      return { success: true, estimate, summary };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to estimate the cost: ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "How much will it cost to post \"gm everyone\" in General?",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me simulate that write.",
+          action: "ESTIMATE_IQ_COST",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Estimate the cost of inscribing this JSON to my-table",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Simulating the inscription now.",
+          action: "ESTIMATE_IQ_COST",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default estimateCostAction;
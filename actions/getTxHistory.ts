@@ -0,0 +1,149 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+import type { IQWalletTransaction } from "../typescript/types";
+import { summarizeTransactions } from "../typescript/history";
+import { formatSpendingStatus } from "../typescript/spending";
+
+function describeTransaction(tx: IQWalletTransaction): string {
+  const when = tx.time ? new Date(tx.time).toISOString().replace("T", " ").slice(0, 16) : "unknown time";
+  const what = tx.kind === "message"
+    ? `message${tx.chatroom ? ` in ${tx.chatroom}` : ""}`
+    : tx.kind === "inscription"
+      ? `inscription${tx.table ? ` to ${tx.table}` : ""}`
+      : tx.kind === "tip"
+        ? `tip of ${tx.amount} SOL to ${tx.recipient}`
+        : `other${tx.chatroom ? ` (${tx.chatroom})` : tx.table ? ` (${tx.table})` : ""}`;
+  const status = tx.success ? "" : " [failed]";
+  return `- ${when} ${what}, fee ${tx.fee} SOL${status} [${tx.signature.slice(0, 8)}…]`;
+}
+
+const getTxHistoryAction: Action = {
+  name: "GET_IQ_TX_HISTORY",
+  similes: [
+    "TX_HISTORY",
+    "TRANSACTION_HISTORY",
+    "WALLET_HISTORY",
+    "RECENT_TRANSACTIONS",
+    "SPENDING_HISTORY",
+  ],
+  description:
+    "List the wallet's recent transactions (message writes, inscriptions, tips and other) with their fees and chatrooms, and summarize what was spent.",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service || service.isReadOnly()) {
+      return false;
+    }
+
+    const text = message.content?.text?.toLowerCase() || "";
+    return (
+      text.includes("transaction") ||
+      text.includes("history") ||
+      text.includes("spent") ||
+      text.includes("spending") ||
+      text.includes("fees")
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    const limit = Number(options?.limit) || undefined;
+
+    try {
+      const transactions = await service.getRecentTransactions(limit, options?.identity as string | undefined);
+      const summary = summarizeTransactions(transactions);
+      const status = service.getSpendingStatus();
+      const budget = status.hourlyRemaining !== null || status.dailyRemaining !== null || status.lowBalance
+        ? `\nBudget: ${formatSpendingStatus(status)}`
+        : "";
+
+      if (callback) {
+        await callback({
+          text: transactions.length > 0
+            ? `Last ${transactions.length} transactions: ${summary}${budget}\n${transactions.map(describeTransaction).join("\n")}`
+            : `No transactions found for this wallet.${budget}`,
+          data: {
+            summary,
+            transactions: transactions.map((t) => ({ ...t })),
+          },
+        });
+      }
+
+      return { success: true, summary, transactions };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to get transaction history: ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "What has the wallet spent recently?",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me pull up the recent transactions.",
+          action: "GET_IQ_TX_HISTORY",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Show me the last 20 IQ transactions",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Fetching the last 20 transactions.",
+          action: "GET_IQ_TX_HISTORY",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default getTxHistoryAction;
@@ -8,6 +8,8 @@ import {
 } from "@elizaos/core";
 import { IQ_SERVICE_NAME } from "../typescript/constants";
 import type { IQService } from "../typescript/service";
+import type { IQTokenBalance } from "../typescript/types";
+import { formatTokenBalances } from "../typescript/tokens";
 
 const getWalletInfoAction: Action = {
   name: "GET_WALLET_INFO",
@@ -19,7 +21,7 @@ const getWalletInfoAction: Action = {
     "MY_WALLET",
   ],
   description:
-    "Get wallet information including address and SOL balance for the IQ agent.",
+    "Get wallet information including address, SOL balance and SPL token holdings for the IQ agent.",
 
   validate: async (
     runtime: IAgentRuntime,
@@ -36,7 +38,9 @@ const getWalletInfoAction: Action = {
       text.includes("wallet") ||
       text.includes("balance") ||
       text.includes("sol") ||
-      text.includes("address")
+      text.includes("address") ||
+      text.includes("token") ||
+      text.includes("holding")
     );
   },
 
@@ -61,15 +65,41 @@ const getWalletInfoAction: Action = {
     try {
       const address = service.getWalletAddress();
       const balance = await service.getBalance();
+      // Token lookups can fail on their own; the SOL balance is still reported
+      let tokens: IQTokenBalance[] | null = null;
+      try {
+        tokens = await service.getTokenBalances();
+      } catch {
+        tokens = null;
+      }
+      const tokenLines = tokens === null
+        ? "\nTokens: unavailable"
+        : tokens.length > 0
+          ? `\nTokens:\n${tokens
+              .map((t) => `- ${t.symbol ?? t.mint}${t.name ? ` (${t.name})` : ""}: ${t.uiAmount} [${t.mint}]`)
+              .join("\n")}`
+          : "\nTokens: none";
+      const identities = service.getIdentities();
+      const identityLines = identities.length > 1
+        ? `\nIdentities:\n${identities
+            .map((i) => `- ${i.name} (${i.displayName}): ${i.wallet}${i.isDefault ? " [default]" : ""}`)
+            .join("\n")}`
+        : "";
 
       if (callback) {
         await callback({
-          text: `Wallet Address: ${address}\nSOL Balance: ${balance.toFixed(4)} SOL`,
-          data: { address, balance },
+          text: `Wallet Address: ${address}\nSOL Balance: ${balance.toFixed(4)} SOL${tokenLines}${identityLines}`,
+          data: {
+            address,
+            balance,
+            tokens: (tokens ?? []).map((t) => ({ ...t })),
+            tokenSummary: tokens ? formatTokenBalances(tokens) : "unavailable",
+            identities: identities.map((i) => ({ ...i })),
+          },
         });
       }
 
-      return { success: true, address, balance };
+      return { success: true, address, balance, tokens: tokens ?? [], identities };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -26,7 +26,7 @@ const inscribeDataAction: Action = {
     _state?: State
   ): Promise<boolean> => {
     const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
-    if (!service) {
+    if (!service || !service.getCapabilities().inscribeData) {
       return false;
     }
 
@@ -71,7 +71,7 @@ const inscribeDataAction: Action = {
     }
 
     try {
-      const txSig = await service.inscribeData(data, table);
+      const txSig = await service.inscribeData(data, table, options?.identity as string | undefined);
 
       if (callback) {
         await callback({
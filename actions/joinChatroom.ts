@@ -0,0 +1,131 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+
+const joinChatroomAction: Action = {
+  name: "JOIN_IQ_CHATROOM",
+  similes: [
+    "CONNECT_IQ_CHATROOM",
+    "SUBSCRIBE_IQ_CHATROOM",
+    "LISTEN_IQ_CHATROOM",
+    "ENTER_IQ_ROOM",
+  ],
+  description:
+    "Join an IQ on-chain chatroom: connect to it and start listening for new messages. The agent stays in the room across restarts until it leaves.",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      return false;
+    }
+
+    const text = message.content?.text?.toLowerCase() || "";
+    return (
+      (text.includes("join") || text.includes("enter") || text.includes("listen") || text.includes("connect")) &&
+      (text.includes("chatroom") || text.includes("room") || text.includes("channel"))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    const name = options?.name as string
+      || options?.chatroom as string
+      || options?.channelRef as string;
+
+    if (!name) {
+      if (callback) {
+        await callback({
+          text: "Please tell me which chatroom to join.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Missing chatroom name" };
+    }
+
+    try {
+      const { name: chatroom, tablePda } = await service.joinChatroom(name);
+
+      if (callback) {
+        await callback({
+          text: `Joined "${chatroom}". I'm now listening for new messages there.`,
+          data: { chatroom, tablePda },
+        });
+      }
+
+      return { success: true, chatroom, tablePda };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to join chatroom "${name}": ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Join the Alpha Calls chatroom",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Joining Alpha Calls on IQ.",
+          action: "JOIN_IQ_CHATROOM",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Start listening in the hackathon room too",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll join the Hackathon room and keep an eye on it.",
+          action: "JOIN_IQ_CHATROOM",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default joinChatroomAction;
@@ -0,0 +1,117 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+
+const leaveChatroomAction: Action = {
+  name: "LEAVE_IQ_CHATROOM",
+  similes: [
+    "DISCONNECT_IQ_CHATROOM",
+    "UNSUBSCRIBE_IQ_CHATROOM",
+    "EXIT_IQ_ROOM",
+    "MUTE_IQ_CHATROOM",
+  ],
+  description:
+    "Leave an IQ on-chain chatroom: stop listening for its messages and disconnect. The agent stays out of the room across restarts until it joins again. The default chatroom can't be left.",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      return false;
+    }
+
+    const text = message.content?.text?.toLowerCase() || "";
+    return (
+      (text.includes("leave") || text.includes("exit") || text.includes("stop listening") || text.includes("disconnect")) &&
+      (text.includes("chatroom") || text.includes("room") || text.includes("channel"))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    const ref = options?.name as string
+      || options?.chatroom as string
+      || options?.channelRef as string
+      || (message.content?.metadata as Record<string, string> | undefined)?.chatroom;
+
+    if (!ref) {
+      if (callback) {
+        await callback({
+          text: "Please tell me which chatroom to leave.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Missing chatroom name" };
+    }
+
+    try {
+      const chatroom = await service.leaveChatroom(ref);
+
+      if (callback) {
+        await callback({
+          text: `Left "${chatroom}". I'm no longer listening there.`,
+          data: { chatroom },
+        });
+      }
+
+      return { success: true, chatroom };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to leave chatroom "${ref}": ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Leave the Pump Fun chatroom",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Leaving Pump Fun on IQ.",
+          action: "LEAVE_IQ_CHATROOM",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default leaveChatroomAction;
@@ -0,0 +1,161 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+
+/**
+ * Human-readable age of a timestamp (ms)
+ */
+function timeAgo(timestamp?: number): string {
+  if (!timestamp) return "no activity";
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "active just now";
+  if (minutes < 60) return `active ${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `active ${hours}h ago`;
+  return `active ${Math.floor(hours / 24)}d ago`;
+}
+
+const listChatroomsAction: Action = {
+  name: "LIST_IQ_CHATROOMS",
+  similes: [
+    "DISCOVER_IQ_CHATROOMS",
+    "FIND_IQ_CHATROOMS",
+    "BROWSE_IQ_CHATROOMS",
+    "IQ_ROOMS",
+  ],
+  description:
+    "List the IQ on-chain chatrooms that exist, with their creators and recent activity, most active first. Use it to answer which rooms exist or to pick an active room to join.",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      return false;
+    }
+
+    const text = message.content?.text?.toLowerCase() || "";
+    return (
+      (text.includes("room") || text.includes("chatroom") || text.includes("channel")) &&
+      (text.includes("list") ||
+        text.includes("exist") ||
+        text.includes("which") ||
+        text.includes("what") ||
+        text.includes("find") ||
+        text.includes("active"))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    const limit = (options?.limit as number) || 20;
+    const refresh = options?.refresh === true;
+
+    try {
+      const chatrooms = (await service.listChatrooms(refresh)).slice(0, limit);
+
+      if (chatrooms.length === 0) {
+        if (callback) {
+          await callback({
+            text: "No chatrooms found on IQ.",
+            data: { chatrooms: [] },
+          });
+        }
+        return { success: true, chatrooms: [] };
+      }
+
+      const formatted = chatrooms
+        .map((c) => {
+          const details = [
+            timeAgo(c.lastActivity),
+            `${c.recentWrites} messages in 24h`,
+            c.creator ? `created by ${c.creator.slice(0, 8)}...` : null,
+            c.gated ? "gated" : null,
+            c.connected ? "connected" : null,
+          ].filter(Boolean);
+          return `- ${c.name} (${details.join(", ")})`;
+        })
+        .join("\n");
+
+      if (callback) {
+        await callback({
+          text: `IQ chatrooms, most active first:\n\n${formatted}`,
+          data: { chatrooms },
+        });
+      }
+
+      return { success: true, chatrooms };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to list chatrooms: ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "What rooms exist on IQ?",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Let me list the IQ chatrooms.",
+          action: "LIST_IQ_CHATROOMS",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Find the most active chatrooms",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Checking which IQ chatrooms have the most recent activity.",
+          action: "LIST_IQ_CHATROOMS",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default listChatroomsAction;
@@ -8,6 +8,7 @@ import {
 } from "@elizaos/core";
 import { IQ_SERVICE_NAME } from "../typescript/constants";
 import type { IQService } from "../typescript/service";
+import { type IQAmbiguousChatroomError, isIQError } from "../typescript/errors";
 
 const readMessagesAction: Action = {
   name: "READ_IQ_MESSAGES",
@@ -72,11 +73,10 @@ const readMessagesAction: Action = {
       || (message.content?.metadata as Record<string, string> | undefined)?.chatroom
       || undefined;
 
-    const targetChatroom = channelRef
-      ? service.resolveChatroom(channelRef)
-      : service.getDefaultChatroom();
+    let targetChatroom = channelRef || service.getDefaultChatroom();
 
     try {
+      targetChatroom = service.resolveChatroom(targetChatroom);
       const messages = await service.readMessages(limit, targetChatroom);
 
       if (messages.length === 0) {
@@ -90,7 +90,7 @@ const readMessagesAction: Action = {
       }
 
       const formattedMessages = messages
-        .map((m) => `${m.agent}: ${m.content}`)
+        .map((m) => `[id:${m.id}] ${m.agent}${m.reply_to ? ` (reply to ${m.reply_to})` : ""}: ${m.content}`)
         .join("\n");
 
       if (callback) {
@@ -115,7 +115,11 @@ const readMessagesAction: Action = {
         });
       }
 
-      return { success: false, error: errorMessage };
+      return {
+        success: false,
+        error: errorMessage,
+        ...(isIQError<IQAmbiguousChatroomError>(error, "IQ_AMBIGUOUS_CHATROOM") ? { candidates: error.candidates } : {}),
+      };
     }
   },
 
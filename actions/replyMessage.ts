@@ -0,0 +1,181 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+import { type IQAmbiguousChatroomError, isIQError } from "../typescript/errors";
+
+const replyMessageAction: Action = {
+  name: "REPLY_IQ_MESSAGE",
+  similes: [
+    "REPLY_IQ",
+    "RESPOND_IQ_MESSAGE",
+    "ANSWER_IQ_MESSAGE",
+    "THREAD_REPLY_IQ",
+  ],
+  description:
+    "Reply to a specific message in an IQ on-chain chatroom. Target the message by its id, or by sender name/wallet to reply to their latest message.",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service || !service.getCapabilities().sendMessages) {
+      return false;
+    }
+
+    const text = message.content?.text?.toLowerCase() || "";
+    return (
+      text.includes("reply") ||
+      text.includes("respond") ||
+      text.includes("answer")
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    const replyContent = options?.content as string ||
+      options?.message as string;
+
+    if (!replyContent) {
+      if (callback) {
+        await callback({
+          text: "No reply content provided.",
+          error: true,
+        });
+      }
+      return { success: false, error: "No content" };
+    }
+
+    const channelRef = options?.channelRef as string
+      || options?.chatroom as string
+      || options?.channel as string
+      || (message.content?.metadata as Record<string, string> | undefined)?.chatroom
+      || undefined;
+
+    let targetChatroom = channelRef || service.getDefaultChatroom();
+
+    try {
+      targetChatroom = service.resolveChatroom(targetChatroom);
+      // Target by explicit message id, or by the sender's latest message
+      let replyTo = options?.messageId as string || options?.replyTo as string;
+      const sender = options?.sender as string || options?.from as string;
+
+      if (!replyTo && sender) {
+        const latest = await service.findLatestMessageFrom(sender, targetChatroom);
+        replyTo = latest?.id ?? "";
+        if (!replyTo) {
+          if (callback) {
+            await callback({
+              text: `No recent message from "${sender}" found in "${targetChatroom}".`,
+              error: true,
+            });
+          }
+          return { success: false, error: "Message not found" };
+        }
+      }
+
+      if (!replyTo) {
+        if (callback) {
+          await callback({
+            text: "Specify the message id or the sender to reply to.",
+            error: true,
+          });
+        }
+        return { success: false, error: "No reply target" };
+      }
+
+      const txSig = await service.sendMessage(replyContent, targetChatroom, {
+        replyTo,
+        identity: options?.identity as string | undefined,
+      });
+
+      if (callback) {
+        await callback({
+          text: `Reply sent to "${targetChatroom}"! Transaction: ${txSig}`,
+          data: { txSig, chatroom: targetChatroom, replyTo },
+        });
+      }
+
+      return {
+        success: true,
+        txSig,
+        chatroom: targetChatroom,
+        replyTo,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to reply in "${targetChatroom}": ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+        ...(isIQError<IQAmbiguousChatroomError>(error, "IQ_AMBIGUOUS_CHATROOM") ? { candidates: error.candidates } : {}),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Reply to alice in Pump Fun and say the token launched",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "I'll reply to Alice's latest message in Pump Fun.",
+          action: "REPLY_IQ_MESSAGE",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Respond to message V1StGXR8_Z5jdHi6B-myT with gm",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Replying to that message now.",
+          action: "REPLY_IQ_MESSAGE",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default replyMessageAction;
@@ -8,6 +8,8 @@ import {
 } from "@elizaos/core";
 import { IQ_SERVICE_NAME } from "../typescript/constants";
 import type { IQService } from "../typescript/service";
+import type { IQAttachment } from "../typescript/types";
+import { IQAmbiguousChatroomError, isIQError } from "../typescript/errors";
 
 const sendMessageAction: Action = {
   name: "SEND_IQ_MESSAGE",
@@ -19,7 +21,7 @@ const sendMessageAction: Action = {
     "SEND_IQ",
   ],
   description:
-    "Send a message to an IQ on-chain chatroom. Specify a target chatroom by name, or it defaults to the default chatroom. Messages are permanently stored on Solana.",
+    "Send a message to an IQ on-chain chatroom. Specify a target chatroom by name, or it defaults to the default chatroom. A wallet address as the target sends a direct message to that wallet. Set encryptTo to a wallet address to encrypt the message so only that wallet can read it. Set identity to post as one of the agent's named wallet identities. Messages are permanently stored on Solana.",
   
   validate: async (
     runtime: IAgentRuntime,
@@ -27,7 +29,7 @@ const sendMessageAction: Action = {
     _state?: State
   ): Promise<boolean> => {
     const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
-    if (!service) {
+    if (!service || !service.getCapabilities().sendMessages) {
       return false;
     }
     
@@ -38,7 +40,8 @@ const sendMessageAction: Action = {
       text.includes("message") ||
       text.includes("chat") ||
       text.includes("say") ||
-      text.includes("tell")
+      text.includes("tell") ||
+      text.includes("dm")
     );
   },
 
@@ -76,20 +79,38 @@ const sendMessageAction: Action = {
     }
 
     // Resolve target chatroom from options or message metadata
-    // channelRef can be a chatroom name, partial name (fuzzy matched), or undefined for default
+    // channelRef can be a chatroom name, partial name (fuzzy matched), a wallet address
+    // (direct message), or undefined for default
     const channelRef = options?.channelRef as string
       || options?.chatroom as string
       || options?.channel as string
       || options?.target as string
+      || options?.wallet as string
       || (message.content?.metadata as Record<string, string> | undefined)?.chatroom
       || undefined;
 
-    const targetChatroom = channelRef
-      ? service.resolveChatroom(channelRef)
-      : service.getDefaultChatroom();
+    // Sending to a room no one knows about needs explicit confirmation
+    const createIfMissing = options?.confirmNew === true || options?.createIfMissing === true || undefined;
+    const encryptTo = options?.encryptTo as string | undefined;
+    const identity = options?.identity as string | undefined;
+    let targetChatroom = channelRef || service.getDefaultChatroom();
+
+    // Optional attachments: explicit list, or a single URL / file in the attachments directory
+    // (loadAttachment refuses other schemes and paths outside IQ_ATTACHMENTS_DIR)
+    const attachmentUrl = options?.attachmentUrl as string | undefined;
+    const attachmentPath = options?.attachmentPath as string | undefined;
+    const attachments = (options?.attachments as IQAttachment[] | undefined)
+      ?? (attachmentUrl ? [{ url: attachmentUrl }] : attachmentPath ? [{ path: attachmentPath }] : undefined);
 
     try {
-      const txSig = await service.sendMessage(messageContent, targetChatroom);
+      // Unknown rooms are passed through; sendMessage applies the new-room policy
+      const resolution = service.matchChatroom(targetChatroom);
+      if (resolution.status === "ambiguous") {
+        throw new IQAmbiguousChatroomError(targetChatroom, resolution.candidates.map((c) => c.name));
+      }
+      if (resolution.status === "resolved") targetChatroom = resolution.chatroom;
+
+      const txSig = await service.sendMessage(messageContent, targetChatroom, { attachments, createIfMissing, encryptTo, identity });
       
       if (callback) {
         await callback({
@@ -113,7 +134,11 @@ const sendMessageAction: Action = {
         });
       }
 
-      return { success: false, error: errorMessage };
+      return {
+        success: false,
+        error: errorMessage,
+        ...(isIQError<IQAmbiguousChatroomError>(error, "IQ_AMBIGUOUS_CHATROOM") ? { candidates: error.candidates } : {}),
+      };
     }
   },
 
@@ -163,6 +188,21 @@ const sendMessageAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "DM 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU and ask if they want to collab",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Sending a direct message to that wallet on IQ.",
+          action: "SEND_IQ_MESSAGE",
+        },
+      },
+    ],
   ] as ActionExample[][],
 };
 
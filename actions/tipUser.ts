@@ -0,0 +1,208 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@elizaos/core";
+import { IQ_SERVICE_NAME } from "../typescript/constants";
+import type { IQService } from "../typescript/service";
+import { type IQRecipientNotFoundError, isIQError } from "../typescript/errors";
+
+/** Explicit tip intent: "tip" or "tipping" as a word ("tips and tricks" is not a tip) */
+const TIP_INTENT_PATTERN = /\btip(?:ping)?\b/i;
+
+/** A SOL amount in a message, e.g. "0.05", ".1 sol" or "2SOL" (not the digits of a wallet address) */
+const TIP_AMOUNT_PATTERN = /(?:^|\s)(\d+(?:\.\d+)?|\.\d+)\s*(?:sol\b)?(?=[\s,!?]|\.(?!\d)|$)/i;
+
+/**
+ * The tip amount stated in a message, if any
+ */
+function parseTipAmount(text: string): number | undefined {
+  const amount = Number(text.match(TIP_AMOUNT_PATTERN)?.[1]);
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+const tipUserAction: Action = {
+  name: "TIP_IQ_USER",
+  similes: [
+    "TIP_USER",
+    "SEND_TIP",
+    "REWARD_USER",
+    "TIP_SOL",
+    "SEND_SOL",
+  ],
+  description:
+    "Tip a chat participant in SOL. The recipient can be a wallet address, a display name from recent messages, or \"the last person who spoke in <room>\". Per-tip and daily caps apply. The tip is announced in the chatroom with its transaction signature.",
+
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State
+  ): Promise<boolean> => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service || !service.getCapabilities().sendMessages || !service.canRequestTip(message)) {
+      return false;
+    }
+
+    // Moving SOL needs an explicit tip and an amount; "pay", "reward" or "send sol" in
+    // ordinary chat isn't enough
+    const text = message.content?.text || "";
+    return TIP_INTENT_PATTERN.test(text) && parseTipAmount(text) !== undefined;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: Record<string, unknown>,
+    callback?: HandlerCallback
+  ) => {
+    const service = runtime.getService(IQ_SERVICE_NAME) as IQService;
+    if (!service) {
+      if (callback) {
+        await callback({
+          text: "IQ service is not available.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Service not available" };
+    }
+
+    if (!service.canRequestTip(message)) {
+      if (callback) {
+        await callback({
+          text: "Tips can't be requested from this sender.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Sender may not request tips" };
+    }
+
+    // Recipient: wallet address, display name, or "the last person who spoke in <room>"
+    const recipient = options?.recipient as string
+      || options?.to as string
+      || options?.user as string
+      || options?.wallet as string;
+    const amount = Number(options?.amount ?? parseTipAmount(message.content?.text || ""));
+
+    if (!recipient) {
+      if (callback) {
+        await callback({
+          text: "Who should I tip? Give a wallet address, a name from the chat, or \"the last person who spoke in <room>\".",
+          error: true,
+        });
+      }
+      return { success: false, error: "Missing recipient" };
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      if (callback) {
+        await callback({
+          text: "Please give the tip amount in SOL.",
+          error: true,
+        });
+      }
+      return { success: false, error: "Missing amount" };
+    }
+
+    const chatroom = options?.channelRef as string
+      || options?.chatroom as string
+      || options?.channel as string
+      || (message.content?.metadata as Record<string, string> | undefined)?.chatroom
+      || undefined;
+
+    try {
+      const result = await service.tipUser(recipient, amount, {
+        chatroom,
+        identity: options?.identity as string | undefined,
+      });
+      const who = result.recipient.name ?? result.recipient.wallet;
+
+      if (callback) {
+        await callback({
+          text: result.chatroom
+            ? `Tipped ${who} ${amount} SOL and announced it in "${result.chatroom}". Transaction: ${result.txSig}`
+            : `Tipped ${who} ${amount} SOL. Transaction: ${result.txSig}`,
+          data: { txSig: result.txSig, wallet: result.recipient.wallet, amount },
+        });
+      }
+
+      return {
+        success: true,
+        txSig: result.txSig,
+        wallet: result.recipient.wallet,
+        amount,
+        chatroom: result.chatroom,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      if (callback) {
+        await callback({
+          text: `Failed to tip ${recipient}: ${errorMessage}`,
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: errorMessage,
+        ...(isIQError<IQRecipientNotFoundError>(error, "IQ_RECIPIENT_NOT_FOUND") && error.candidates.length > 1
+          ? { candidates: error.candidates }
+          : {}),
+      };
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Tip the last person who spoke in General 0.01 SOL",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Sending 0.01 SOL to the latest speaker in General.",
+          action: "TIP_IQ_USER",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Give alice a 0.05 SOL tip for that alpha",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Tipping alice 0.05 SOL on IQ.",
+          action: "TIP_IQ_USER",
+        },
+      },
+    ],
+    [
+      {
+        name: "{{user1}}",
+        content: {
+          text: "Send 0.02 SOL to 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU as a tip",
+        },
+      },
+      {
+        name: "{{agent}}",
+        content: {
+          text: "Tipping that wallet 0.02 SOL.",
+          action: "TIP_IQ_USER",
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default tipUserAction;
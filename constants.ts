@@ -13,6 +13,11 @@ export const DB_ROOT_NAME = "clawbal";
  */
 export const CHATROOM_PREFIX = "chatroom:";
 
+/**
+ * Direct message table prefix; the full name is dm:<walletA>:<walletB> with the wallets sorted
+ */
+export const DM_PREFIX = "dm:";
+
 /**
  * Default chatroom (when no target specified)
  */
@@ -23,6 +28,11 @@ export const DEFAULT_CHATROOM = "clawbal";
  */
 export const DEFAULT_CHATROOMS = ["clawbal", "milaidy"];
 
+/**
+ * Name of the identity loaded from SOLANA_PRIVATE_KEY / SOLANA_KEYPAIR_PATH
+ */
+export const DEFAULT_IDENTITY = "default";
+
 /**
  * External service URLs
  */
@@ -34,6 +44,35 @@ export const URLS = {
   moltbook: "https://www.moltbook.com/api/v1",
 } as const;
 
+/**
+ * Columns of a chatroom message table; every field written in a message row must be one of these
+ */
+export const MESSAGE_COLUMNS = [
+  "id",
+  "agent",
+  "wallet",
+  "content",
+  "timestamp",
+  "chatroom",
+  "media_tx",
+  "reply_to",
+  "part_group",
+  "part_index",
+  "part_total",
+  "sig",
+  "envelope",
+] as const;
+
+/**
+ * Columns a part of a multi-part message adds to its row
+ */
+export const PART_COLUMNS = ["part_group", "part_index", "part_total"] as const;
+
+/**
+ * Public content of an encrypted message; the real content is in its envelope
+ */
+export const ENCRYPTED_PLACEHOLDER = "[encrypted]";
+
 /**
  * Message limits
  */
@@ -42,6 +81,209 @@ export const MESSAGE_LIMITS = {
   defaultReadLimit: 15,
   /** Maximum message content length */
   maxContentLength: 2000,
-  /** Minimum SOL balance required */
+  /** Maximum number of parts a long message is split into */
+  maxMessageParts: 10,
+  /** How long the poller waits for missing parts before emitting a partial message (ms) */
+  partWaitMs: 120000,
+  /** Maximum attachment size in bytes */
+  maxAttachmentBytes: 5 * 1024 * 1024,
+  /** Minimum SOL balance required (default for IQ_MIN_SOL_BALANCE) */
   minSolBalance: 0.01,
+  /** Number of messages fetched per chatroom on each poll */
+  pollBatchSize: 20,
+  /** Default number of messages replayed when first joining a chatroom */
+  defaultBacklogReplay: 0,
+  /** Future-dated messages whose first-read time is remembered */
+  maxFutureDated: 1000,
+} as const;
+
+/**
+ * Chatroom subscription defaults
+ */
+export const SUBSCRIPTION_DEFAULTS = {
+  /** Default subscription mode */
+  mode: "websocket",
+  /** Poll interval right after activity (ms) */
+  minIntervalMs: 2000,
+  /** Poll interval ceiling for quiet rooms, and safety poll in websocket mode (ms) */
+  maxIntervalMs: 60000,
+} as const;
+
+/**
+ * Transaction tracking defaults
+ */
+export const TX_DEFAULTS = {
+  /** Commitment a write must reach to count as confirmed */
+  commitment: "confirmed",
+  /** Resends allowed when a write's blockhash expires */
+  maxRetries: 3,
+  /** Interval between signature status checks (ms) */
+  pollIntervalMs: 2000,
+  /** How long settled transactions stay available for lookups (ms) */
+  retentionMs: 60 * 60 * 1000,
+} as const;
+
+/**
+ * Outbound queue defaults
+ */
+export const QUEUE_DEFAULTS = {
+  /** Max writes per chatroom per minute */
+  perChatroomPerMinute: 6,
+  /** Max writes across all chatrooms per minute */
+  globalPerMinute: 20,
+  /** Attempts before a transient failure becomes final */
+  maxAttempts: 5,
+  /** First retry delay, doubled on every attempt (ms) */
+  baseBackoffMs: 2000,
+} as const;
+
+/**
+ * Read backend defaults
+ */
+export const READER_DEFAULTS = {
+  /** Backends tried in order */
+  order: ["api", "gateway", "sdk"],
+  /** Timeout per backend (ms) */
+  timeouts: { api: 5000, gateway: 8000, sdk: 20000 },
+  /** Consecutive failures before a backend is skipped */
+  failureThreshold: 3,
+  /** How long an unhealthy backend is skipped (ms) */
+  cooldownMs: 60000,
+} as const;
+
+/**
+ * Chatroom defaults
+ */
+export const CHATROOM_DEFAULTS = {
+  /** How long gate and writer metadata read from a table account is reused (ms) */
+  metaTtlMs: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Direct message channels
+ */
+export const DM_DEFAULTS = {
+  /** How often to look for DM tables other wallets opened with the agent (ms) */
+  discoveryIntervalMs: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Signer defaults
+ */
+export const SIGNER_DEFAULTS = {
+  /** Timeout for a remote signing request (ms) */
+  remoteTimeoutMs: 15 * 1000,
+} as const;
+
+/**
+ * Solana program ids used for token lookups
+ */
+export const PROGRAM_IDS = {
+  token: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  token2022: "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+  tokenMetadata: "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s",
+} as const;
+
+/**
+ * Token balance lookups
+ */
+export const TOKEN_DEFAULTS = {
+  /** How long token balances are reused (ms) */
+  balanceCacheMs: 60 * 1000,
+  /** Mint or metadata accounts fetched per RPC call */
+  accountBatchSize: 100,
+  /** Holdings listed in a summary before "and N more" */
+  summaryLimit: 5,
+} as const;
+
+/**
+ * SOL tipping caps
+ */
+export const TIP_DEFAULTS = {
+  /** Largest single tip (SOL) */
+  maxSol: 0.1,
+  /** Most SOL tipped in any 24 hours */
+  dailyMaxSol: 1,
+  /** Window the daily cap covers (ms) */
+  windowMs: 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Spending guard windows
+ */
+export const SPENDING_DEFAULTS = {
+  hourMs: 60 * 60 * 1000,
+  dayMs: 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Wallet transaction history
+ */
+export const HISTORY_DEFAULTS = {
+  /** Transactions returned when no limit is given */
+  defaultLimit: 10,
+  /** Most transactions returned */
+  maxLimit: 50,
+  /** Transactions fetched per RPC call */
+  fetchBatchSize: 25,
+  /** Table accounts fetched per RPC call when naming tables */
+  accountBatchSize: 100,
+} as const;
+
+/**
+ * Engagement policy defaults (respond to everything)
+ */
+export const ENGAGEMENT_DEFAULTS = {
+  /** Chance of responding to a message that doesn't mention the agent */
+  replyProbability: 1,
+  /** Minimum time between the agent's messages in a room (ms) */
+  cooldownMs: 0,
+  /** Most agent messages per room per hour (0 = no limit) */
+  maxRepliesPerHour: 0,
+} as const;
+
+/**
+ * Chatroom reference resolution thresholds
+ */
+export const RESOLVER_DEFAULTS = {
+  /** Shorter references only match exactly or through an alias */
+  minPartialLength: 3,
+  /** Lowest edit-distance similarity (0-1) accepted as a typo */
+  minFuzzySimilarity: 0.75,
+  /** Candidates scoring within this margin of the best make a reference ambiguous */
+  ambiguityMargin: 0.05,
+  /** Most candidates returned for an ambiguous reference */
+  maxCandidates: 5,
+} as const;
+
+/**
+ * Chatroom discovery defaults
+ */
+export const DISCOVERY_DEFAULTS = {
+  /** How long a chatroom listing is reused (ms) */
+  cacheTtlMs: 5 * 60 * 1000,
+  /** Window for counting recent writes (ms) */
+  activityWindowMs: 24 * 60 * 60 * 1000,
+  /** Signatures scanned per table for activity and creator lookup */
+  signatureScan: 200,
+  /** Table accounts fetched per RPC call */
+  accountBatchSize: 100,
+  /** Most chatrooms listed */
+  maxRooms: 50,
+} as const;
+
+/**
+ * Runtime cache key prefixes
+ */
+export const CACHE_KEYS = {
+  /** Per-chatroom read cursor, suffixed with the lowercase chatroom name */
+  readCursor: "iq/cursor/",
+  /** Persistent outbound write queue */
+  outboundQueue: "iq/outbound-queue",
+  /** Chatrooms joined and left at runtime */
+  membership: "iq/membership",
+  /** Tips sent in the last 24 hours, for the daily cap */
+  tipLedger: "iq/tips",
+  /** On-chain spending in the last 24 hours, for the spending budgets */
+  spendLedger: "iq/spending",
 } as const;
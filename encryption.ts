@@ -0,0 +1,95 @@
+import { PublicKey } from "@solana/web3.js";
+import { createHash } from "crypto";
+import iqlabs from "@iqlabs-official/solana-sdk";
+import type { IQEnvelope } from "./types";
+
+/** Field prime of Curve25519 / ed25519 */
+const P = 2n ** 255n - 19n;
+
+/** Envelope format version */
+const ENVELOPE_VERSION = 1;
+
+function modPow(base: bigint, exp: bigint): bigint {
+  let result = 1n;
+  let b = ((base % P) + P) % P;
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % P;
+    b = (b * b) % P;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex");
+}
+
+/**
+ * Convert an ed25519 public key to its X25519 (Montgomery) form: u = (1 + y) / (1 - y)
+ */
+export function ed25519PublicToX25519(publicKey: Uint8Array): Uint8Array {
+  const bytes = Uint8Array.from(publicKey);
+  bytes[31] &= 0x7f; // drop the sign bit of x
+  const y = BigInt(`0x${toHex(bytes.reverse())}`);
+  const u = ((1n + y) * modPow(1n - y, P - 2n)) % P;
+  return Uint8Array.from(Buffer.from(u.toString(16).padStart(64, "0"), "hex").reverse());
+}
+
+/**
+ * Convert a Solana secret key (64 bytes, seed first) to the matching X25519 private key
+ */
+export function ed25519SecretToX25519(secretKey: Uint8Array): Uint8Array {
+  const hash = createHash("sha512").update(secretKey.slice(0, 32)).digest();
+  const key = Uint8Array.from(hash.subarray(0, 32));
+  key[0] &= 248;
+  key[31] &= 127;
+  key[31] |= 64;
+  return key;
+}
+
+/**
+ * Seal plaintext to a wallet: ephemeral X25519 key agreement with the wallet's
+ * converted public key, then AES-256-GCM (the IQLabs SDK's DH scheme).
+ */
+export async function sealMessage(plaintext: string, recipientWallet: string): Promise<IQEnvelope> {
+  const recipient = ed25519PublicToX25519(new PublicKey(recipientWallet).toBytes());
+  const sealed = await iqlabs.crypto.dhEncrypt(toHex(recipient), Buffer.from(plaintext, "utf8"));
+  return {
+    v: ENVELOPE_VERSION,
+    to: recipientWallet,
+    epk: sealed.senderPub,
+    iv: sealed.iv,
+    ct: sealed.ciphertext,
+  };
+}
+
+/**
+ * Open an envelope with the recipient's X25519 private key (see ed25519SecretToX25519);
+ * throws if it can't be decrypted
+ */
+export async function openEnvelope(envelope: IQEnvelope, encryptionKey: Uint8Array): Promise<string> {
+  if (envelope.v !== ENVELOPE_VERSION) throw new Error(`Unsupported envelope version ${envelope.v}`);
+  const plaintext = await iqlabs.crypto.dhDecrypt(encryptionKey, envelope.epk, envelope.iv, envelope.ct);
+  return Buffer.from(plaintext).toString("utf8");
+}
+
+/**
+ * Read an envelope from a row, where it may arrive as an object or a JSON string
+ */
+export function parseEnvelope(value: unknown): IQEnvelope | undefined {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!raw || typeof raw !== "object") return undefined;
+  const e = raw as Record<string, unknown>;
+  if (typeof e.to !== "string" || typeof e.epk !== "string" || typeof e.iv !== "string" || typeof e.ct !== "string") {
+    return undefined;
+  }
+  return { v: Number(e.v), to: e.to, epk: e.epk, iv: e.iv, ct: e.ct };
+}
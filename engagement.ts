@@ -0,0 +1,103 @@
+import { ENGAGEMENT_DEFAULTS } from "./constants";
+import type { IQEngagementDecision, IQEngagementPolicy, IQMessage } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Escape a string for use inside a RegExp
+ */
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * EngagementFilter - decides which incoming messages the agent responds to
+ *
+ * Policies come from character settings, keyed by lowercase chatroom name, with "*"
+ * applying to every room. A room's policy overrides "*" field by field; ignored
+ * wallets from both are combined. Cooldowns and hourly caps count the agent's own
+ * sends to each room, recorded through `recordReply`.
+ */
+export class EngagementFilter {
+  private replies: Map<string, number[]> = new Map();
+
+  constructor(
+    private policies: Record<string, IQEngagementPolicy>,
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Effective policy for a chatroom
+   */
+  getPolicy(chatroomName: string): Required<IQEngagementPolicy> {
+    const all = this.policies["*"] ?? {};
+    const room = this.policies[chatroomName.toLowerCase()] ?? {};
+    return {
+      mentionsOnly: room.mentionsOnly ?? all.mentionsOnly ?? false,
+      replyProbability: room.replyProbability ?? all.replyProbability ?? ENGAGEMENT_DEFAULTS.replyProbability,
+      cooldownMs: room.cooldownMs ?? all.cooldownMs ?? ENGAGEMENT_DEFAULTS.cooldownMs,
+      maxRepliesPerHour: room.maxRepliesPerHour ?? all.maxRepliesPerHour ?? ENGAGEMENT_DEFAULTS.maxRepliesPerHour,
+      listenOnly: room.listenOnly ?? all.listenOnly ?? false,
+      ignoredWallets: [...(all.ignoredWallets ?? []), ...(room.ignoredWallets ?? [])],
+    };
+  }
+
+  /**
+   * Decide whether to respond to a message. `identity` is the agent's display name and
+   * wallets; `addressedToAgent` is true when the message replies to one of the agent's own
+   * or is a direct message, and counts as a mention.
+   */
+  evaluate(
+    msg: IQMessage,
+    chatroomName: string,
+    identity: { name: string; wallets: string[] },
+    addressedToAgent: boolean
+  ): IQEngagementDecision {
+    const policy = this.getPolicy(chatroomName);
+
+    if (policy.ignoredWallets.includes(msg.wallet)) return { respond: false, reason: "ignored_wallet" };
+    if (policy.listenOnly) return { respond: false, reason: "listen_only" };
+
+    const mentioned = addressedToAgent || this.mentions(msg.content, identity);
+    if (policy.mentionsOnly && !mentioned) return { respond: false, reason: "not_mentioned" };
+
+    const now = Date.now();
+    const recent = this.recentReplies(chatroomName, now);
+    const last = recent[recent.length - 1];
+    if (policy.cooldownMs > 0 && last !== undefined && now - last < policy.cooldownMs) {
+      return { respond: false, reason: "cooldown" };
+    }
+    if (policy.maxRepliesPerHour > 0 && recent.length >= policy.maxRepliesPerHour) {
+      return { respond: false, reason: "hourly_limit" };
+    }
+
+    // Direct mentions are always answered; other messages are sampled
+    if (!mentioned && this.random() >= policy.replyProbability) {
+      return { respond: false, reason: "probability" };
+    }
+
+    return { respond: true };
+  }
+
+  /**
+   * Record that the agent sent a message to a chatroom
+   */
+  recordReply(chatroomName: string): void {
+    const key = chatroomName.toLowerCase();
+    const replies = this.recentReplies(key, Date.now());
+    replies.push(Date.now());
+    this.replies.set(key, replies);
+  }
+
+  private recentReplies(chatroomName: string, now: number): number[] {
+    const replies = (this.replies.get(chatroomName.toLowerCase()) ?? []).filter((t) => t > now - HOUR_MS);
+    this.replies.set(chatroomName.toLowerCase(), replies);
+    return replies;
+  }
+
+  private mentions(content: string, identity: { name: string; wallets: string[] }): boolean {
+    if (identity.wallets.some((w) => w && content.includes(w))) return true;
+    if (!identity.name) return false;
+    return new RegExp(`(^|[^\\w])@?${escapeRegExp(identity.name)}($|[^\\w])`, "i").test(content);
+  }
+}
@@ -1,6 +1,26 @@
 import type { IAgentRuntime } from "@elizaos/core";
-import { DEFAULT_CHATROOM, DEFAULT_CHATROOMS, URLS } from "./constants";
-import type { IQSettings } from "./types";
+import {
+  DEFAULT_CHATROOM,
+  DEFAULT_CHATROOMS,
+  MESSAGE_LIMITS,
+  QUEUE_DEFAULTS,
+  READER_DEFAULTS,
+  SUBSCRIPTION_DEFAULTS,
+  TIP_DEFAULTS,
+  TX_DEFAULTS,
+  URLS,
+} from "./constants";
+import type {
+  IQCommitment,
+  IQEngagementPolicy,
+  IQIdentityConfig,
+  IQLongMessageMode,
+  IQReaderName,
+  IQSettings,
+  IQSubscriptionMode,
+  IQUnknownChatroomPolicy,
+  IQUnverifiedPolicy,
+} from "./types";
 
 /**
  * Get IQ settings from runtime with proper priority:
@@ -40,19 +60,238 @@ export function getIQSettings(runtime: IAgentRuntime): IQSettings {
     chatrooms.unshift(defaultChatroom);
   }
 
+  // Backlog replay on first join: non-negative integer, falls back to default
+  const backlogReplay = Number.parseInt(getSetting("IQ_BACKLOG_REPLAY") ?? "", 10);
+
+  // Subscription mode and adaptive poll bounds
+  const modeSetting = getSetting("IQ_SUBSCRIPTION_MODE")?.toLowerCase();
+  const subscriptionMode: IQSubscriptionMode =
+    modeSetting === "poll" || modeSetting === "websocket" ? modeSetting : SUBSCRIPTION_DEFAULTS.mode;
+  const pollMinIntervalMs = parsePositiveInt(getSetting("IQ_POLL_MIN_INTERVAL_MS"), SUBSCRIPTION_DEFAULTS.minIntervalMs);
+  // Long content handling: split (default), truncate or reject
+  const longModeSetting = getSetting("IQ_LONG_MESSAGE_MODE")?.toLowerCase();
+  const longMessageMode: IQLongMessageMode =
+    longModeSetting === "truncate" || longModeSetting === "reject" ? longModeSetting : "split";
+
+  // Write confirmation
+  const commitmentSetting = getSetting("IQ_TX_COMMITMENT")?.toLowerCase();
+  const txCommitment: IQCommitment =
+    commitmentSetting === "processed" || commitmentSetting === "confirmed" || commitmentSetting === "finalized"
+      ? commitmentSetting
+      : TX_DEFAULTS.commitment;
+  const txMaxRetries = Number.parseInt(getSetting("IQ_TX_MAX_RETRIES") ?? "", 10);
+
+  // Unverified senders: mark (default), quarantine or drop
+  const unverifiedSetting = getSetting("IQ_UNVERIFIED_POLICY")?.toLowerCase();
+  const unverifiedPolicy: IQUnverifiedPolicy =
+    unverifiedSetting === "quarantine" || unverifiedSetting === "drop" ? unverifiedSetting : "mark";
+
+  // Read backends: comma-separated order, unknown names ignored
+  const backendsSetting = getSetting("IQ_READ_BACKENDS");
+  const parsedBackends = (backendsSetting ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is IQReaderName => s === "api" || s === "gateway" || s === "sdk");
+  const readBackends = parsedBackends.length > 0 ? Array.from(new Set(parsedBackends)) : [...READER_DEFAULTS.order];
+
+  // Chatroom aliases: "alias=Room Name" pairs, comma-separated
+  const chatroomAliases: Record<string, string> = {};
+  for (const pair of (getSetting("IQ_CHATROOM_ALIASES") ?? "").split(",")) {
+    const [alias, name] = pair.split("=").map((s) => s?.trim());
+    if (alias && name) chatroomAliases[alias.toLowerCase()] = name;
+  }
+
+  const unknownSetting = getSetting("IQ_UNKNOWN_CHATROOM_POLICY")?.toLowerCase();
+  const unknownChatroomPolicy: IQUnknownChatroomPolicy = unknownSetting === "connect" ? "connect" : "reject";
+
+  // Engagement policies: object (character settings) or JSON string keyed by chatroom name
+  const engagementSetting =
+    runtime.getSetting("IQ_ENGAGEMENT") ??
+    (runtime.character?.settings?.iq as Record<string, unknown> | undefined)?.IQ_ENGAGEMENT;
+
+  // Named identities: object keyed by identity name, as JSON or in character settings
+  const identitiesSetting =
+    runtime.getSetting("IQ_IDENTITIES") ??
+    (runtime.character?.settings?.iq as Record<string, unknown> | undefined)?.IQ_IDENTITIES;
+
+  // Chatroom identities: "Room Name=identity" pairs, comma-separated
+  const chatroomIdentities: Record<string, string> = {};
+  for (const pair of (getSetting("IQ_CHATROOM_IDENTITIES") ?? "").split(",")) {
+    const [room, identity] = pair.split("=").map((s) => s?.trim());
+    if (room && identity) chatroomIdentities[room.toLowerCase()] = identity;
+  }
+
+  const pollMaxIntervalMs = Math.max(
+    pollMinIntervalMs,
+    parsePositiveInt(getSetting("IQ_POLL_MAX_INTERVAL_MS"), SUBSCRIPTION_DEFAULTS.maxIntervalMs)
+  );
+
   return {
     rpcUrl: getSetting("SOLANA_RPC_URL", URLS.solanaRpc) ?? URLS.solanaRpc,
     keypairPath: getSetting("SOLANA_KEYPAIR_PATH"),
     privateKey: getSetting("SOLANA_PRIVATE_KEY"),
+    keystorePath: getSetting("IQ_KEYSTORE_PATH"),
+    keystorePassphrase: getSetting("IQ_KEYSTORE_PASSPHRASE"),
+    remoteSignerUrl: getSetting("IQ_REMOTE_SIGNER_URL"),
+    remoteSignerPublicKey: getSetting("IQ_REMOTE_SIGNER_PUBKEY"),
+    remoteSignerToken: getSetting("IQ_REMOTE_SIGNER_TOKEN"),
     agentName,
     defaultChatroom,
     chatrooms,
     moltbookToken: getSetting("MOLTBOOK_TOKEN"),
     pnlApiUrl: getSetting("PNL_API_URL", URLS.pnl),
     gatewayUrl: getSetting("IQ_GATEWAY_URL", URLS.gateway),
+    backlogReplay:
+      Number.isFinite(backlogReplay) && backlogReplay >= 0
+        ? backlogReplay
+        : MESSAGE_LIMITS.defaultBacklogReplay,
+    subscriptionMode,
+    pollMinIntervalMs,
+    pollMaxIntervalMs,
+    longMessageMode,
+    txCommitment,
+    txMaxRetries: Number.isFinite(txMaxRetries) && txMaxRetries >= 0 ? txMaxRetries : TX_DEFAULTS.maxRetries,
+    rateLimitPerChatroom: parsePositiveInt(getSetting("IQ_RATE_LIMIT_PER_CHATROOM"), QUEUE_DEFAULTS.perChatroomPerMinute),
+    rateLimitGlobal: parsePositiveInt(getSetting("IQ_RATE_LIMIT_GLOBAL"), QUEUE_DEFAULTS.globalPerMinute),
+    unverifiedPolicy,
+    readBackends,
+    readTimeouts: {
+      api: parsePositiveInt(getSetting("IQ_READ_TIMEOUT_API_MS"), READER_DEFAULTS.timeouts.api),
+      gateway: parsePositiveInt(getSetting("IQ_READ_TIMEOUT_GATEWAY_MS"), READER_DEFAULTS.timeouts.gateway),
+      sdk: parsePositiveInt(getSetting("IQ_READ_TIMEOUT_SDK_MS"), READER_DEFAULTS.timeouts.sdk),
+    },
+    readFailureThreshold: parsePositiveInt(getSetting("IQ_READ_FAILURE_THRESHOLD"), READER_DEFAULTS.failureThreshold),
+    readCooldownMs: parsePositiveInt(getSetting("IQ_READ_COOLDOWN_MS"), READER_DEFAULTS.cooldownMs),
+    autoCreateChatrooms: getSetting("IQ_AUTO_CREATE_CHATROOMS")?.toLowerCase() === "true",
+    chatroomAliases,
+    unknownChatroomPolicy,
+    engagement: parseEngagementPolicies(engagementSetting),
+    identities: parseIdentities(identitiesSetting),
+    chatroomIdentities,
+    tipMaxSol: parsePositiveNumber(getSetting("IQ_TIP_MAX_SOL"), TIP_DEFAULTS.maxSol),
+    tipDailyMaxSol: parsePositiveNumber(getSetting("IQ_TIP_DAILY_MAX_SOL"), TIP_DEFAULTS.dailyMaxSol),
+    tipAllowedWallets: (getSetting("IQ_TIP_ALLOWED_WALLETS") ?? "").split(",").map((s) => s.trim()).filter(Boolean),
+    minSolBalance: parseNonNegativeNumber(getSetting("IQ_MIN_SOL_BALANCE"), MESSAGE_LIMITS.minSolBalance),
+    spendHourlyBudgetSol: parseNonNegativeNumber(getSetting("IQ_SPEND_HOURLY_BUDGET_SOL"), 0),
+    spendDailyBudgetSol: parseNonNegativeNumber(getSetting("IQ_SPEND_DAILY_BUDGET_SOL"), 0),
+    simulateWrites: getSetting("IQ_SIMULATE_WRITES")?.toLowerCase() === "true",
+    attachmentsDir: getSetting("IQ_ATTACHMENTS_DIR"),
   };
 }
 
+/**
+ * Parse a positive integer setting, falling back to a default
+ */
+function parsePositiveInt(value: string | undefined, defaultValue: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
+}
+
+/**
+ * Parse a positive decimal setting, falling back to a default
+ */
+function parsePositiveNumber(value: string | undefined, defaultValue: number): number {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : defaultValue;
+}
+
+/**
+ * Parse a decimal setting that may be zero, falling back to a default
+ */
+function parseNonNegativeNumber(value: string | undefined, defaultValue: number): number {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : defaultValue;
+}
+
+/**
+ * Parse per-chatroom engagement policies, keyed by lowercase chatroom name.
+ * Invalid JSON or fields of the wrong type are ignored.
+ */
+function parseEngagementPolicies(value: unknown): Record<string, IQEngagementPolicy> {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+
+  const policies: Record<string, IQEngagementPolicy> = {};
+  for (const [room, entry] of Object.entries(raw as Record<string, Record<string, unknown>>)) {
+    if (!entry || typeof entry !== "object") continue;
+    const policy: IQEngagementPolicy = {};
+    if (typeof entry.mentionsOnly === "boolean") policy.mentionsOnly = entry.mentionsOnly;
+    if (typeof entry.listenOnly === "boolean") policy.listenOnly = entry.listenOnly;
+    if (typeof entry.replyProbability === "number") {
+      policy.replyProbability = Math.min(1, Math.max(0, entry.replyProbability));
+    }
+    if (typeof entry.cooldownMs === "number" && entry.cooldownMs >= 0) policy.cooldownMs = entry.cooldownMs;
+    if (typeof entry.maxRepliesPerHour === "number" && entry.maxRepliesPerHour >= 0) {
+      policy.maxRepliesPerHour = entry.maxRepliesPerHour;
+    }
+    if (Array.isArray(entry.ignoredWallets)) {
+      policy.ignoredWallets = entry.ignoredWallets.filter((w): w is string => typeof w === "string");
+    }
+    policies[room.toLowerCase()] = policy;
+  }
+  return policies;
+}
+
+/**
+ * Parse named identities from an object keyed by identity name (or an array with `name`
+ * fields). Identities without a key source are ignored.
+ */
+function parseIdentities(value: unknown): IQIdentityConfig[] {
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!raw || typeof raw !== "object") return [];
+
+  const entries = Array.isArray(raw)
+    ? raw.map((entry) => [entry?.name, entry] as const)
+    : Object.entries(raw as Record<string, unknown>);
+
+  const identities: IQIdentityConfig[] = [];
+  for (const [name, entry] of entries) {
+    if (typeof name !== "string" || !name.trim() || !entry || typeof entry !== "object") continue;
+    const e = entry as Record<string, unknown>;
+    const str = (key: string) => (typeof e[key] === "string" ? (e[key] as string) : undefined);
+    const identity: IQIdentityConfig = {
+      name: name.trim(),
+      displayName: str("displayName"),
+      privateKey: str("privateKey"),
+      keypairPath: str("keypairPath"),
+      keystorePath: str("keystorePath"),
+      keystorePassphrase: str("keystorePassphrase"),
+      remoteSignerUrl: str("remoteSignerUrl"),
+      remoteSignerPublicKey: str("remoteSignerPublicKey"),
+      remoteSignerToken: str("remoteSignerToken"),
+    };
+    if (!hasKeySource(identity)) continue;
+    identities.push(identity);
+  }
+  return identities;
+}
+
+/**
+ * Whether a config names somewhere to sign from
+ */
+export function hasKeySource(config: {
+  privateKey?: string;
+  keypairPath?: string;
+  keystorePath?: string;
+  remoteSignerUrl?: string;
+}): boolean {
+  return !!(config.privateKey || config.keypairPath || config.keystorePath || config.remoteSignerUrl);
+}
+
 /**
  * Validate that required settings are present
  */
@@ -62,8 +301,18 @@ export function validateIQSettings(settings: IQSettings): {
 } {
   const errors: string[] = [];
 
-  if (!settings.keypairPath && !settings.privateKey) {
-    errors.push("Either SOLANA_KEYPAIR_PATH or SOLANA_PRIVATE_KEY is required");
+  if (!hasKeySource(settings) && settings.identities.length === 0) {
+    errors.push(
+      "One of SOLANA_KEYPAIR_PATH, SOLANA_PRIVATE_KEY, IQ_KEYSTORE_PATH, IQ_REMOTE_SIGNER_URL or IQ_IDENTITIES is required"
+    );
+  }
+
+  if (settings.keystorePath && !settings.keystorePassphrase) {
+    errors.push("IQ_KEYSTORE_PASSPHRASE is required with IQ_KEYSTORE_PATH");
+  }
+
+  if (settings.remoteSignerUrl && !settings.remoteSignerPublicKey) {
+    errors.push("IQ_REMOTE_SIGNER_PUBKEY is required with IQ_REMOTE_SIGNER_URL");
   }
 
   if (!settings.rpcUrl) {
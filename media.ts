@@ -0,0 +1,216 @@
+import { ContentType, type Media } from "@elizaos/core";
+import { promises as dns } from "dns";
+import * as fs from "fs";
+import { BlockList, isIP } from "net";
+import * as path from "path";
+import type { IQAttachment } from "./types";
+
+/**
+ * Attachment bytes ready to inscribe
+ */
+export interface LoadedAttachment {
+  data: Buffer;
+  filename?: string;
+  mimeType?: string;
+}
+
+/**
+ * Where attachments may be loaded from, and how large they may be
+ */
+export interface AttachmentSourceOptions {
+  /** Largest attachment in bytes */
+  maxBytes: number;
+  /** Directory local paths must resolve into; local paths are refused when unset */
+  attachmentsDir?: string;
+}
+
+/**
+ * Addresses attachments may not be downloaded from: loopback, private, link-local and
+ * other non-public ranges, so a URL can't reach services on the agent's own network
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Load an attachment's bytes from raw data, a data: URL, an http(s) URL or a file in the
+ * attachments directory. Attachments are inscribed publicly, so local files outside that
+ * directory are refused, URLs must point at public hosts (redirects are not followed), and
+ * downloads stop as soon as they go over the size limit.
+ */
+export async function loadAttachment(
+  attachment: IQAttachment,
+  options: AttachmentSourceOptions
+): Promise<LoadedAttachment> {
+  const { filename, mimeType } = attachment;
+  const checkSize = (size: number) => {
+    if (size > options.maxBytes) {
+      throw new Error(`Attachment too large (${size} bytes, max ${options.maxBytes})`);
+    }
+  };
+
+  if (attachment.data) {
+    checkSize(attachment.data.length);
+    return { data: Buffer.from(attachment.data), filename, mimeType };
+  }
+
+  const source = attachment.url ?? attachment.path;
+  if (!source) {
+    throw new Error("Attachment has no data, url or path");
+  }
+
+  // data:<mime>;base64,<payload>
+  const dataUrl = source.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (dataUrl) {
+    const payload = dataUrl[2] ? Buffer.from(dataUrl[3], "base64") : Buffer.from(decodeURIComponent(dataUrl[3]));
+    checkSize(payload.length);
+    return { data: payload, filename, mimeType: mimeType ?? dataUrl[1] };
+  }
+
+  if (/^https?:\/\//i.test(source)) {
+    await assertPublicHost(new URL(source).hostname);
+    const response = await fetch(source, { redirect: "manual" });
+    if (response.type === "opaqueredirect" || (response.status >= 300 && response.status < 400)) {
+      await response.body?.cancel();
+      throw new Error(`Attachment URL redirects, which is not followed: ${source}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to download attachment (${response.status}): ${source}`);
+    }
+    const data = await readLimited(response, options.maxBytes);
+    return {
+      data,
+      filename: filename ?? path.basename(new URL(source).pathname),
+      mimeType: mimeType ?? response.headers.get("content-type") ?? undefined,
+    };
+  }
+
+  // Any other URL scheme is refused; only a path may be a file: URL
+  if (attachment.url || (/^[a-z][a-z0-9+.-]*:/i.test(source) && !/^file:\/\//i.test(source))) {
+    throw new Error(`Unsupported attachment URL (only http, https and data: URLs are allowed): ${source}`);
+  }
+
+  const filePath = resolveAttachmentPath(source.replace(/^file:\/\//i, ""), options.attachmentsDir);
+  checkSize(fs.statSync(filePath).size);
+  return { data: fs.readFileSync(filePath), filename: filename ?? path.basename(filePath), mimeType };
+}
+
+/**
+ * Resolve a local attachment path inside the attachments directory, following symlinks,
+ * and refuse anything that lands outside it
+ */
+function resolveAttachmentPath(filePath: string, attachmentsDir?: string): string {
+  if (!attachmentsDir) {
+    throw new Error("Local attachments are disabled; set IQ_ATTACHMENTS_DIR to allow files from a directory");
+  }
+  const root = fs.realpathSync(path.resolve(attachmentsDir));
+  const inside = (candidate: string) => candidate.startsWith(root + path.sep);
+  const candidate = path.resolve(root, filePath);
+  if (!inside(candidate)) {
+    throw new Error(`Attachment path is outside the attachments directory: ${filePath}`);
+  }
+  if (!fs.existsSync(candidate) || !fs.statSync(candidate).isFile()) {
+    throw new Error(`Attachment file not found: ${filePath}`);
+  }
+  const resolved = fs.realpathSync(candidate);
+  if (!inside(resolved)) {
+    throw new Error(`Attachment path is outside the attachments directory: ${filePath}`);
+  }
+  return resolved;
+}
+
+/**
+ * Resolve a download's host and refuse it if any of its addresses is not public
+ */
+async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await dns.lookup(host, { all: true });
+  for (const { address, family } of addresses) {
+    // IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+    const blocked = mapped
+      ? BLOCKED_ADDRESSES.check(mapped, "ipv4")
+      : BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+    if (blocked) {
+      throw new Error(`Attachment host is not a public address: ${hostname} (${address})`);
+    }
+  }
+}
+
+/**
+ * Read a response body, giving up once it passes maxBytes (by Content-Length when the
+ * server sends one, otherwise while streaming)
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Attachment too large (${declared} bytes, max ${maxBytes})`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.length;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Attachment too large (over ${maxBytes} bytes)`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Convert an Eliza media attachment to an IQ attachment
+ */
+export function mediaToAttachment(media: Media): IQAttachment {
+  return { url: media.url, filename: media.title };
+}
+
+/**
+ * Map a MIME type to an Eliza content type
+ */
+export function contentTypeForMime(mimeType?: string): ContentType {
+  if (mimeType?.startsWith("image/")) return ContentType.IMAGE;
+  if (mimeType?.startsWith("video/")) return ContentType.VIDEO;
+  if (mimeType?.startsWith("audio/")) return ContentType.AUDIO;
+  return ContentType.DOCUMENT;
+}
+
+/**
+ * Parse the metadata JSON stored with an inscription ({ filetype, filename, ... })
+ */
+export function parseInscriptionMetadata(metadata: string): { filename?: string; filetype?: string } {
+  try {
+    const parsed = JSON.parse(metadata) as { filename?: string; filetype?: string };
+    return { filename: parsed.filename, filetype: parsed.filetype };
+  } catch {
+    return {};
+  }
+}
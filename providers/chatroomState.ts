@@ -1,10 +1,13 @@
 import type { IAgentRuntime, Memory, Provider, State } from "@elizaos/core";
 import { IQ_SERVICE_NAME } from "../typescript/constants";
 import type { IQService } from "../typescript/service";
+import type { IQTokenBalance } from "../typescript/types";
+import { formatTokenBalances } from "../typescript/tokens";
+import { formatSpendingStatus } from "../typescript/spending";
 
 /**
  * Provider that supplies IQ chatroom context to the agent.
- * When wallet is not configured, tells the agent how to enable IQ chat.
+ * In read-only mode (no wallet), tells the agent it can read but not send, and how to enable writes.
  */
 export const chatroomStateProvider: Provider = {
   name: "chatroomState",
@@ -18,16 +21,26 @@ export const chatroomStateProvider: Provider = {
     
     if (!service) {
       return {
-        data: { available: false, reason: "wallet_not_configured" },
+        data: { available: false, reason: "service_not_running" },
         values: { iqAvailable: "false" },
-        text: "IQ on-chain chat is not available. To enable it, configure a Solana wallet by setting SOLANA_PRIVATE_KEY in your environment.",
+        text: "IQ on-chain chat is not available - the IQ service is not running.",
       };
     }
 
     const connectedChatrooms = service.getConnectedChatrooms();
+    const directMessageWallets = service.getDirectMessageWallets();
     const defaultChatroom = service.getDefaultChatroom();
     const walletAddress = service.getWalletAddress();
-    
+    const capabilities = service.getCapabilities();
+    const readOnly = service.isReadOnly();
+    const queueDepth = service.getOutboundQueueDepth();
+    const pendingOutbound = service.getPendingOutbound().map((item) => ({
+      kind: item.kind,
+      target: item.chatroom ?? item.table,
+      attempts: item.attempts,
+      lastError: item.lastError,
+    }));
+
     let balance = 0;
     try {
       balance = await service.getBalance();
@@ -35,6 +48,15 @@ export const chatroomStateProvider: Provider = {
       // Ignore balance fetch errors
     }
 
+    let tokens: IQTokenBalance[] = [];
+    try {
+      tokens = await service.getTokenBalances();
+    } catch {
+      // Ignore token fetch errors
+    }
+    const tokenSummary = formatTokenBalances(tokens);
+    const spending = service.getSpendingStatus();
+
     // Get recent messages from each connected chatroom
     const allRecentMessages: string[] = [];
     for (const room of connectedChatrooms) {
@@ -51,32 +73,58 @@ export const chatroomStateProvider: Provider = {
     const data = {
       available: true,
       connectedChatrooms,
+      directMessageWallets,
       defaultChatroom,
       walletAddress,
       balance,
+      tokens,
+      spending,
+      readOnly,
+      capabilities,
+      queueDepth,
+      pendingOutbound,
       recentMessages: allRecentMessages,
     };
 
     const values = {
       iqAvailable: "true",
+      iqReadOnly: String(readOnly),
+      iqCanSend: String(capabilities.sendMessages),
+      outboundQueueDepth: String(queueDepth),
       connectedChatrooms: connectedChatrooms.join(", "),
       defaultChatroom,
       agentWallet: walletAddress,
       solBalance: balance.toFixed(4),
+      tokenHoldings: tokenSummary,
+      spendingHourlyRemaining: spending.hourlyRemaining === null ? "unlimited" : String(spending.hourlyRemaining),
+      spendingDailyRemaining: spending.dailyRemaining === null ? "unlimited" : String(spending.dailyRemaining),
+      lowBalance: String(spending.lowBalance),
     };
 
     const recentContext = allRecentMessages.length > 0
       ? `\nRecent messages across channels:\n${allRecentMessages.join("\n")}`
       : "\nNo recent messages in any channel.";
 
+    const queueContext = queueDepth > 0
+      ? `\nOutbound queue: ${queueDepth} write(s) pending (${pendingOutbound
+          .map((p) => `${p.kind} to ${p.target}${p.attempts > 0 ? `, ${p.attempts} attempt(s)` : ""}`)
+          .join("; ")})`
+      : "";
+
+    const walletContext = readOnly
+      ? `Mode: read-only (no wallet configured). The agent can read chatrooms but cannot send messages or inscribe data. Set SOLANA_PRIVATE_KEY to enable writes.`
+      : `Wallet: ${walletAddress}
+SOL Balance: ${balance.toFixed(4)} SOL
+Token holdings: ${tokenSummary}
+Spending: ${formatSpendingStatus(spending)}
+
+Messages can be sent to any chatroom by name, or to a wallet address as a direct message. Default target: "${defaultChatroom}".`;
+
     const text = `
 The agent is connected to IQ on-chain chat (Solana).
-Connected chatrooms: ${connectedChatrooms.join(", ")}
+Connected chatrooms: ${connectedChatrooms.join(", ")}${directMessageWallets.length > 0 ? `\nDirect messages with: ${directMessageWallets.join(", ")}` : ""}
 Default chatroom: ${defaultChatroom}
-Wallet: ${walletAddress}
-SOL Balance: ${balance.toFixed(4)} SOL
-
-Messages can be sent to any chatroom by name. Default target: "${defaultChatroom}".${recentContext}
+${walletContext}${queueContext}${recentContext}
     `.trim();
 
     return { data, values, text };
@@ -1,10 +1,11 @@
 import type { IAgentRuntime, Memory, Provider, State } from "@elizaos/core";
 import { IQ_SERVICE_NAME, URLS } from "../typescript/constants";
 import type { IQService } from "../typescript/service";
+import { formatSpendingStatus } from "../typescript/spending";
 
 /**
- * Provider that supplies on-chain and Moltbook context to the agent.
- * When wallet is not configured, tells the agent how to enable IQ chat.
+ * Provider that supplies on-chain and Moltbook context to the agent,
+ * including which capabilities are enabled by the current configuration.
  */
 export const onChainStateProvider: Provider = {
   name: "onChainState",
@@ -18,13 +19,15 @@ export const onChainStateProvider: Provider = {
 
     if (!service) {
       return {
-        data: { available: false, reason: "wallet_not_configured" },
+        data: { available: false, reason: "service_not_running" },
         values: { onChainAvailable: "false" },
-        text: "On-chain services are not available. Set SOLANA_PRIVATE_KEY to enable IQ chat and Moltbook.",
+        text: "On-chain services are not available - the IQ service is not running.",
       };
     }
 
     const connectedChatrooms = service.getConnectedChatrooms();
+    const capabilities = service.getCapabilities();
+    const spending = capabilities.sendMessages ? service.getSpendingStatus() : null;
 
     // Get recent Moltbook posts for context
     let moltbookPosts: string[] = [];
@@ -40,6 +43,8 @@ export const onChainStateProvider: Provider = {
     const data = {
       available: true,
       connectedChatrooms,
+      capabilities,
+      spending,
       moltbookPosts,
       gatewayUrl: URLS.gateway,
       baseUrl: URLS.base,
@@ -49,18 +54,33 @@ export const onChainStateProvider: Provider = {
       onChainAvailable: "true",
       moltbookHasActivity: moltbookPosts.length > 0 ? "true" : "false",
       chatroomCount: String(connectedChatrooms.length),
+      iqCanSend: String(capabilities.sendMessages),
+      moltbookCanPost: String(capabilities.moltbookPost),
+      spendingBudgetExhausted: String(
+        !!spending && (spending.hourlyRemaining === 0 || spending.dailyRemaining === 0 || spending.lowBalance)
+      ),
     };
 
     const moltbookContext = moltbookPosts.length > 0
       ? `\nTrending on Moltbook:\n${moltbookPosts.join("\n")}`
       : "";
 
+    const spendingContext = spending ? `\n\nOn-chain spending: ${formatSpendingStatus(spending)}` : "";
+
+    const enabled = (on: boolean) => (on ? "enabled" : "disabled");
+
     const text = `
 On-chain services:
 - IQ chat: connected to ${connectedChatrooms.join(", ")}
 - Moltbook: ${URLS.moltbook.replace("/api/v1", "")}${moltbookContext}
 
-The agent can send/read messages to any chatroom by name, and interact with Moltbook.
+Capabilities:
+- Read chatrooms: ${enabled(capabilities.readMessages)}
+- Send messages: ${enabled(capabilities.sendMessages)}${capabilities.sendMessages ? "" : " (no wallet configured)"}
+- Inscribe data: ${enabled(capabilities.inscribeData)}${capabilities.inscribeData ? "" : " (no wallet configured)"}
+- Create chatrooms: ${enabled(capabilities.createChatrooms)}${capabilities.createChatrooms ? "" : " (no wallet configured)"}
+- Browse Moltbook: ${enabled(capabilities.moltbookBrowse)}
+- Post on Moltbook: ${enabled(capabilities.moltbookPost)}${capabilities.moltbookPost ? "" : " (MOLTBOOK_TOKEN not set)"}${spendingContext}
     `.trim();
 
     return { data, values, text };
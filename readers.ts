@@ -0,0 +1,189 @@
+import iqlabs from "@iqlabs-official/solana-sdk";
+import type { IQChatroom, IQMessage, IQReaderName, IQReaderStats } from "./types";
+
+/**
+ * A backend that can read recent chatroom messages
+ */
+export interface ChatReader {
+  readonly name: IQReaderName;
+  /** Read up to `limit` recent rows; throws on failure. `signal` aborts on timeout. */
+  read(chatroom: IQChatroom, limit: number, signal: AbortSignal): Promise<IQMessage[]>;
+  /** Whether the backend can serve this table at all (default: yes) */
+  supports?(chatroom: IQChatroom): boolean;
+}
+
+/**
+ * Reads through the IQ HTTP API (indexed by chatroom name)
+ */
+export class ApiReader implements ChatReader {
+  readonly name = "api" as const;
+
+  constructor(private baseUrl: string) {}
+
+  /** The API only indexes public chatrooms, not DM tables */
+  supports(chatroom: IQChatroom): boolean {
+    return !chatroom.dmWith;
+  }
+
+  async read(chatroom: IQChatroom, limit: number, signal: AbortSignal): Promise<IQMessage[]> {
+    const url = `${this.baseUrl}/api/v1/messages?chatroom=${encodeURIComponent(chatroom.name)}&limit=${limit}`;
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`API responded ${response.status}`);
+    const data = await response.json();
+    return (data.messages || []) as IQMessage[];
+  }
+}
+
+/**
+ * Reads table rows through the IQ gateway (indexed by table PDA)
+ */
+export class GatewayReader implements ChatReader {
+  readonly name = "gateway" as const;
+
+  constructor(private gatewayUrl: string) {}
+
+  async read(chatroom: IQChatroom, limit: number, signal: AbortSignal): Promise<IQMessage[]> {
+    const url = `${this.gatewayUrl}/table/${chatroom.tablePda}/rows?limit=${limit}`;
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`Gateway responded ${response.status}`);
+    const data = await response.json();
+    return (data.rows || data || []) as IQMessage[];
+  }
+}
+
+/**
+ * Reads table rows directly from Solana through the IQLabs SDK
+ */
+export class SdkReader implements ChatReader {
+  readonly name = "sdk" as const;
+
+  async read(chatroom: IQChatroom, limit: number, signal: AbortSignal): Promise<IQMessage[]> {
+    // The SDK takes no abort signal; the chain's timeout race covers it
+    if (signal.aborted) throw new Error("Aborted");
+    const rows = await iqlabs.reader.readTableRows(chatroom.tablePda, { limit });
+    // A row's own tx_sig is whatever its writer put there; keep the one the row was read from
+    return rows.map(({ __txSignature, tx_sig: _claimed, ...row }) => ({
+      ...row,
+      tx_sig: __txSignature as string | undefined,
+    })) as unknown as IQMessage[];
+  }
+}
+
+/**
+ * Reader chain configuration
+ */
+export interface ReaderChainOptions {
+  /** Timeout per backend (ms) */
+  timeouts: Record<IQReaderName, number>;
+  /** Consecutive failures before a backend is skipped */
+  failureThreshold: number;
+  /** How long an unhealthy backend is skipped (ms) */
+  cooldownMs: number;
+  logger: { debug: (msg: string) => void; warn: (msg: string) => void };
+}
+
+/**
+ * ReaderChain - tries read backends in order with per-backend timeouts
+ *
+ * Each backend has a circuit breaker: after `failureThreshold` consecutive failures it
+ * is skipped for `cooldownMs`, then gets one trial read. Latency and error counts are
+ * kept per backend for diagnostics.
+ */
+export class ReaderChain {
+  private stats: Map<IQReaderName, IQReaderStats> = new Map();
+
+  constructor(private readers: ChatReader[], private options: ReaderChainOptions) {
+    for (const reader of readers) {
+      this.stats.set(reader.name, {
+        name: reader.name,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        avgLatencyMs: 0,
+        lastLatencyMs: 0,
+        circuitOpenUntil: 0,
+      });
+    }
+  }
+
+  /**
+   * Read from the first healthy backend that succeeds; throws if all fail or are skipped
+   */
+  async read(chatroom: IQChatroom, limit: number): Promise<IQMessage[]> {
+    const errors: string[] = [];
+
+    for (const reader of this.readers) {
+      if (reader.supports && !reader.supports(chatroom)) continue;
+      const stats = this.stats.get(reader.name)!;
+      if (stats.circuitOpenUntil > Date.now()) {
+        errors.push(`${reader.name}: skipped (unhealthy)`);
+        continue;
+      }
+
+      const started = Date.now();
+      try {
+        const messages = await this.withTimeout(reader, chatroom, limit);
+        this.recordSuccess(stats, Date.now() - started);
+        return messages;
+      } catch (error) {
+        this.recordFailure(stats, Date.now() - started, error);
+        this.options.logger.debug(`${reader.name} read failed for ${chatroom.name}: ${error}`);
+        errors.push(`${reader.name}: ${error}`);
+      }
+    }
+
+    throw new Error(`All read backends failed for ${chatroom.name} (${errors.join("; ")})`);
+  }
+
+  getStats(): IQReaderStats[] {
+    return this.readers.map((r) => ({ ...this.stats.get(r.name)! }));
+  }
+
+  private async withTimeout(reader: ChatReader, chatroom: IQChatroom, limit: number): Promise<IQMessage[]> {
+    const timeoutMs = this.options.timeouts[reader.name];
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([reader.read(chatroom, limit, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordSuccess(stats: IQReaderStats, latencyMs: number): void {
+    stats.successes++;
+    stats.consecutiveFailures = 0;
+    stats.circuitOpenUntil = 0;
+    stats.lastLatencyMs = latencyMs;
+    stats.avgLatencyMs = this.movingAverage(stats.avgLatencyMs, latencyMs, stats.successes + stats.failures);
+  }
+
+  private recordFailure(stats: IQReaderStats, latencyMs: number, error: unknown): void {
+    stats.failures++;
+    stats.consecutiveFailures++;
+    stats.lastLatencyMs = latencyMs;
+    stats.avgLatencyMs = this.movingAverage(stats.avgLatencyMs, latencyMs, stats.successes + stats.failures);
+    stats.lastError = String(error instanceof Error ? error.message : error);
+
+    if (stats.consecutiveFailures >= this.options.failureThreshold) {
+      stats.circuitOpenUntil = Date.now() + this.options.cooldownMs;
+      this.options.logger.warn(
+        `Read backend ${stats.name} unhealthy after ${stats.consecutiveFailures} failures, skipping for ${this.options.cooldownMs}ms`
+      );
+    }
+  }
+
+  private movingAverage(current: number, sample: number, count: number): number {
+    // Cumulative mean for the first samples, then an exponential average
+    const weight = Math.max(1 / count, 0.1);
+    return Math.round(current + (sample - current) * weight);
+  }
+}
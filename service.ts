@@ -4,25 +4,113 @@ import {
   type Content,
   createUniqueUuid,
   type IAgentRuntime,
+  type Media,
   type Memory,
   Service,
   stringToUuid,
   type TargetInfo,
   type UUID,
 } from "@elizaos/core";
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
-import { createHash } from "crypto";
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  type Signer as Web3Signer,
+} from "@solana/web3.js";
+import { createHash, randomBytes } from "crypto";
 import { nanoid } from "nanoid";
 import * as fs from "fs";
 import bs58 from "bs58";
 import iqlabs from "@iqlabs-official/solana-sdk";
 
-import { IQ_SERVICE_NAME, DB_ROOT_NAME, CHATROOM_PREFIX, URLS, MESSAGE_LIMITS } from "./constants";
-import { getIQSettings } from "./environment";
+import {
+  IQ_SERVICE_NAME,
+  DB_ROOT_NAME,
+  CHATROOM_PREFIX,
+  DEFAULT_IDENTITY,
+  DM_PREFIX,
+  DM_DEFAULTS,
+  URLS,
+  MESSAGE_LIMITS,
+  MESSAGE_COLUMNS,
+  PART_COLUMNS,
+  CHATROOM_DEFAULTS,
+  ENCRYPTED_PLACEHOLDER,
+  CACHE_KEYS,
+  TX_DEFAULTS,
+  QUEUE_DEFAULTS,
+  TIP_DEFAULTS,
+  PROGRAM_IDS,
+  TOKEN_DEFAULTS,
+  HISTORY_DEFAULTS,
+} from "./constants";
+import { getIQSettings, hasKeySource } from "./environment";
+import {
+  IQAmbiguousChatroomError,
+  IQChatroomNotFoundError,
+  IQContentTooLongError,
+  IQBudgetExceededError,
+  IQIdentityNotFoundError,
+  IQLowBalanceError,
+  IQRecipientNotFoundError,
+  IQSimulationFailedError,
+  IQTipLimitError,
+  IQWalletRequiredError,
+  IQWriteNotAllowedError,
+} from "./errors";
+import { ChatroomSubscriptions } from "./subscriptions";
+import { contentTypeForMime, loadAttachment, mediaToAttachment, parseInscriptionMetadata } from "./media";
+import { reassembleParts, splitContent } from "./parts";
+import { TransactionManager, type TransactionSubmission } from "./txManager";
+import { OutboundQueue } from "./outboundQueue";
+import { SenderVerifier, signMessageBody } from "./verification";
+import { ApiReader, type ChatReader, GatewayReader, ReaderChain, SdkReader } from "./readers";
+import { ChatroomDirectory } from "./discovery";
+import { resolveChatroomRef } from "./resolver";
+import { EngagementFilter } from "./engagement";
+import { openEnvelope, parseEnvelope, sealMessage } from "./encryption";
+import { KeypairSigner, KeystoreSigner, RemoteSigner, type Signer } from "./signers";
+import { OnChainTokenMetadataResolver, type TokenMetadataResolver } from "./tokens";
+import { SpendingGuard } from "./spending";
+import { TransactionHistory } from "./history";
+import { type SdkWrite, simulateWrite } from "./simulation";
 import {
   type IQSettings,
   type IQMessage,
   type IQChatroom,
+  type IQReadCursor,
+  type IQCapabilities,
+  type IQSendOptions,
+  type IQAttachment,
+  type IQTransactionRecord,
+  type IQOutboundItem,
+  type IQVerificationResult,
+  type IQReaderName,
+  type IQReaderStats,
+  type IQCreateChatroomOptions,
+  type IQCreateChatroomResult,
+  type IQWriteAccess,
+  type IQChatroomListing,
+  type IQMembership,
+  type IQChatroomResolution,
+  type IQIdentity,
+  type IQIdentityConfig,
+  type IQTipOptions,
+  type IQTipRecipient,
+  type IQTipRecord,
+  type IQTipResult,
+  type IQTokenBalance,
+  type IQTokenMetadata,
+  type IQSpendKind,
+  type IQSpendRecord,
+  type IQSpendingStatus,
+  type IQLowBalancePayload,
+  type IQWalletTransaction,
+  type IQCostEstimate,
   type MoltbookPost,
   type MoltbookComment,
   type IIQService,
@@ -36,6 +124,74 @@ function sha256(s: string): Uint8Array {
   return createHash("sha256").update(s).digest();
 }
 
+/**
+ * Whether a string is a wallet address (a base58-encoded 32-byte public key)
+ */
+function isWalletAddress(s: string): boolean {
+  if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(s)) return false;
+  try {
+    new PublicKey(s);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * On-chain table name for a chatroom; DM tables are already named dm:<walletA>:<walletB>
+ */
+function tableNameFor(chatroomName: string): string {
+  return chatroomName.startsWith(DM_PREFIX) ? chatroomName : `${CHATROOM_PREFIX}${chatroomName}`;
+}
+
+/**
+ * Tip references naming the latest speaker, e.g. "the last person who spoke in General"
+ */
+const LAST_SPEAKER_PATTERN = /^(?:the\s+)?last\s+(?:person|speaker|one|user)(?:\s+(?:who|that)\s+(?:spoke|talked|posted))?(?:\s+in\s+(.+))?$/i;
+
+/**
+ * A wallet identity with its key
+ */
+interface LoadedIdentity {
+  name: string;
+  displayName: string;
+  signer: Signer;
+  wallet: string;
+}
+
+/**
+ * Build a signer from whichever key source is configured: a base58 private key, a
+ * keypair JSON file, a passphrase-encrypted keystore or a remote signing endpoint
+ */
+async function loadSigner(config: Omit<IQIdentityConfig, "name" | "displayName">): Promise<{ signer: Signer; source: string } | null> {
+  if (config.privateKey) {
+    return { signer: new KeypairSigner(Keypair.fromSecretKey(bs58.decode(config.privateKey))), source: "private key" };
+  }
+  if (config.keypairPath) {
+    const resolvedPath = config.keypairPath.replace("~", process.env.HOME || "");
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Keypair file not found at ${resolvedPath}`);
+    }
+    const keypairData = JSON.parse(fs.readFileSync(resolvedPath, "utf8"));
+    return { signer: new KeypairSigner(Keypair.fromSecretKey(Uint8Array.from(keypairData))), source: resolvedPath };
+  }
+  if (config.keystorePath) {
+    const resolvedPath = config.keystorePath.replace("~", process.env.HOME || "");
+    if (!config.keystorePassphrase) throw new Error(`No passphrase for keystore ${resolvedPath}`);
+    return { signer: await KeystoreSigner.open(resolvedPath, config.keystorePassphrase), source: `keystore ${resolvedPath}` };
+  }
+  if (config.remoteSignerUrl) {
+    if (!config.remoteSignerPublicKey) throw new Error(`No public key for remote signer ${config.remoteSignerUrl}`);
+    const signer = new RemoteSigner({
+      url: config.remoteSignerUrl,
+      publicKey: config.remoteSignerPublicKey,
+      authToken: config.remoteSignerToken,
+    });
+    return { signer, source: `remote signer ${config.remoteSignerUrl}` };
+  }
+  return null;
+}
+
 /**
  * IQService - On-chain chat service for the IQ network
  *
@@ -43,8 +199,9 @@ function sha256(s: string): Uint8Array {
  * Messages are targeted to specific chatrooms by name.
  * Each chatroom maps to a separate on-chain Solana table.
  *
- * If no Solana wallet is configured, the service will not start.
- * Providers detect this and inform the agent to configure SOLANA_PRIVATE_KEY.
+ * If no Solana wallet is configured, the service starts in read-only mode:
+ * chatrooms are still polled and read, and Moltbook can be browsed, but
+ * write paths throw IQWalletRequiredError. Providers report the enabled capabilities.
  */
 export class IQService extends Service implements IIQService {
   static serviceType: string = IQ_SERVICE_NAME;
@@ -53,7 +210,11 @@ export class IQService extends Service implements IIQService {
 
   private settings: IQSettings;
   private connection: Connection | null = null;
-  private keypair: Keypair | null = null;
+  // Default identity's signer (null in read-only mode)
+  private signer: Signer | null = null;
+
+  // Wallet identities keyed by lowercase name, default first
+  private identities: Map<string, LoadedIdentity> = new Map();
 
   // On-chain database configuration
   private dbRootId: Uint8Array | null = null;
@@ -65,27 +226,103 @@ export class IQService extends Service implements IIQService {
   // Message tracking (across all chatrooms)
   private seenMessages: Set<string> = new Set();
 
+  // When future-dated messages were first read, keyed by message id
+  private futureDatedAt: Map<string, number> = new Map();
+
+  // Persisted read cursors keyed by lowercase chatroom name (null = loaded, none saved)
+  private readCursors: Map<string, IQReadCursor | null> = new Map();
+
+  // Memory UUID -> IQ message id, so agent replies can reference the on-chain message
+  private messageIdsByUuid: Map<UUID, string> = new Map();
+
+  // Resolved media attachments keyed by media_tx signature
+  private mediaCache: Map<string, Media> = new Map();
+
+  // Push/adaptive-poll delivery of new chatroom messages
+  private subscriptions: ChatroomSubscriptions | null = null;
+
+  // Confirmation and retry of on-chain writes
+  private txManager: TransactionManager | null = null;
+
+  // Serialized, rate-limited, persisted outbound writes
+  private outboundQueue: OutboundQueue | null = null;
+
+  // Checks incoming messages against the wallet they claim
+  private verifier: SenderVerifier | null = null;
+
+  // Ordered read backends with per-backend health tracking
+  private readerChain: ReaderChain;
+
+  // Table PDAs known to exist on-chain, and table creations in flight
+  private existingTables: Set<string> = new Set();
+  private pendingCreates: Map<string, Promise<IQCreateChatroomResult>> = new Map();
+
+  // When each table's gate and writer metadata was last read (ms), keyed by table PDA
+  private metaLoadedAt: Map<string, number> = new Map();
+
+  // Lists chatroom tables under the database root
+  private directory: ChatroomDirectory | null = null;
+
+  // Rooms joined and left at runtime (lowercase names are compared)
+  private membership: IQMembership = { joined: [], left: [] };
+
+  // Per-chatroom policy for which incoming messages get a response
+  private engagement: EngagementFilter;
+
+  // Ids of messages this agent sent, to recognise replies to it
+  private sentMessageIds: Set<string> = new Set();
+
+  // Runtime room -> chatroom name, so replies find their chatroom or DM table
+  private roomTargets: Map<UUID, string> = new Map();
+
+  // Token symbol/name lookup, with results (null when unknown) kept per mint
+  private tokenMetadataResolver: TokenMetadataResolver | null = null;
+  private tokenMetadata: Map<string, IQTokenMetadata | null> = new Map();
+
+  // Recent token balance lookups per wallet
+  private tokenBalances: Map<string, { at: number; balances: IQTokenBalance[] }> = new Map();
+
+  // Reads and classifies the wallets' recent transactions
+  private history: TransactionHistory | null = null;
+
+  // Hourly/daily spending budgets, and wallets last seen below the minimum balance
+  private spending: SpendingGuard;
+  private lowBalanceWallets: Set<string> = new Set();
+
+  // Tips in the current 24-hour window, loaded from the cache on first use
+  private tipLedger: IQTipRecord[] | null = null;
+
+  // Periodic lookup of DM tables other wallets opened with the agent
+  private dmDiscoveryTimer: ReturnType<typeof setInterval> | null = null;
+
   character: Character;
 
   constructor(protected runtime: IAgentRuntime) {
     super();
     this.settings = getIQSettings(runtime);
     this.character = runtime.character;
+    this.readerChain = this.createReaderChain();
+    this.engagement = new EngagementFilter(this.settings.engagement);
+    this.spending = new SpendingGuard({
+      hourlyBudgetLamports: Math.round(this.settings.spendHourlyBudgetSol * LAMPORTS_PER_SOL),
+      dailyBudgetLamports: Math.round(this.settings.spendDailyBudgetSol * LAMPORTS_PER_SOL),
+      persist: async (records) => {
+        await this.runtime.setCache(CACHE_KEYS.spendLedger, records);
+      },
+      logger: this.runtime.logger,
+    });
   }
 
   /**
-   * Static factory method. If wallet is not configured, logs a warning
-   * and throws so the service doesn't register (providers handle the UX).
+   * Static factory method. Without a wallet the service starts in read-only mode.
    */
   static async start(runtime: IAgentRuntime): Promise<IQService> {
     const service = new IQService(runtime);
 
-    // Check for wallet before attempting init
-    if (!service.settings.privateKey && !service.settings.keypairPath) {
+    if (!hasKeySource(service.settings) && service.settings.identities.length === 0) {
       runtime.logger.warn(
-        "IQ chat not available - no Solana wallet configured. Set SOLANA_PRIVATE_KEY to enable on-chain chat."
+        "No Solana wallet configured - IQ service starting in read-only mode. Set SOLANA_PRIVATE_KEY to enable on-chain writes."
       );
-      throw new Error("IQ service requires SOLANA_PRIVATE_KEY to be configured");
     }
 
     await service.initialize();
@@ -93,7 +330,7 @@ export class IQService extends Service implements IIQService {
   }
 
   /**
-   * Initialize the IQ service (only called when wallet is present)
+   * Initialize the IQ service (wallet is optional; without one the service is read-only)
    */
   private async initialize(): Promise<void> {
     this.runtime.logger.info("IQService.initialize() called");
@@ -105,48 +342,91 @@ export class IQService extends Service implements IIQService {
       // Initialize Solana connection
       this.connection = new Connection(this.settings.rpcUrl, "confirmed");
 
-      // Load keypair
-      if (this.settings.privateKey) {
-        const secretKey = bs58.decode(this.settings.privateKey);
-        this.keypair = Keypair.fromSecretKey(secretKey);
-        this.runtime.logger.info("Loaded keypair from SOLANA_PRIVATE_KEY");
-      } else if (this.settings.keypairPath) {
-        const keypairPath = this.settings.keypairPath.replace("~", process.env.HOME || "");
-        if (!fs.existsSync(keypairPath)) {
-          throw new Error(`Keypair file not found at ${keypairPath}`);
-        }
-        const keypairData = JSON.parse(fs.readFileSync(keypairPath, "utf8"));
-        this.keypair = Keypair.fromSecretKey(Uint8Array.from(keypairData));
-        this.runtime.logger.info(`Loaded keypair from ${keypairPath}`);
-      }
+      this.verifier = new SenderVerifier(this.connection, this.runtime.logger);
+      this.tokenMetadataResolver ??= new OnChainTokenMetadataResolver(this.connection);
+      this.history = new TransactionHistory({ connection: this.connection, logger: this.runtime.logger });
+
+      this.txManager = new TransactionManager({
+        connection: this.connection,
+        commitment: this.settings.txCommitment,
+        maxRetries: this.settings.txMaxRetries,
+        pollIntervalMs: TX_DEFAULTS.pollIntervalMs,
+        retentionMs: TX_DEFAULTS.retentionMs,
+        onSettled: (record) => this.handleTransactionSettled(record),
+        logger: this.runtime.logger,
+      });
+
+      // Load the default identity, then any named identities; without SOLANA_PRIVATE_KEY
+      // or SOLANA_KEYPAIR_PATH the first named identity is the default
+      await this.loadIdentities();
 
       // Initialize on-chain configuration
       this.dbRootId = sha256(DB_ROOT_NAME);
       this.dbRootPda = iqlabs.contract.getDbRootPda(this.dbRootId);
+      this.directory = new ChatroomDirectory({
+        connection: this.connection,
+        dbRootId: this.dbRootId,
+        dbRootPda: this.dbRootPda,
+        logger: this.runtime.logger,
+      });
+
+      // Restore and start the outbound write queue (writes need a wallet)
+      if (this.signer) {
+        await this.startOutboundQueue();
+      }
 
-      // Connect to all configured chatrooms
-      for (const chatroomName of this.settings.chatrooms) {
+      // Connect to the configured chatrooms, adjusted by runtime joins and leaves
+      const memberChatrooms = await this.loadMembership();
+      for (const chatroomName of memberChatrooms) {
         this.ensureChatroom(chatroomName);
       }
 
+      // Load read cursors so polling resumes where the last run stopped
+      for (const chatroomName of memberChatrooms) {
+        await this.getReadCursor(chatroomName);
+      }
+
+      // Connect to the agent's DM tables, and keep looking for new ones
+      if (this.signer) {
+        await this.discoverDirectMessages();
+        this.dmDiscoveryTimer = setInterval(() => {
+          this.discoverDirectMessages().catch(() => {});
+        }, DM_DEFAULTS.discoveryIntervalMs);
+      }
+
+      // Restore spending from earlier runs so budgets hold across restarts
+      try {
+        this.spending.restore((await this.runtime.getCache<IQSpendRecord[]>(CACHE_KEYS.spendLedger)) ?? []);
+      } catch (error) {
+        this.runtime.logger.debug(`Could not restore spend ledger: ${error}`);
+      }
+
       // Check balance (non-blocking)
       let balance = 0;
-      try {
-        balance = await this.getBalance();
-        if (balance < MESSAGE_LIMITS.minSolBalance) {
-          this.runtime.logger.warn(`Low SOL balance (${balance} SOL). Need at least ${MESSAGE_LIMITS.minSolBalance} SOL.`);
+      if (this.signer) {
+        try {
+          balance = await this.getBalance();
+          if (balance < this.settings.minSolBalance) {
+            this.runtime.logger.warn(`Low SOL balance (${balance} SOL). Need at least ${this.settings.minSolBalance} SOL.`);
+            this.reportLowBalance(this.getWalletAddress(), balance);
+          }
+        } catch (e) {
+          this.runtime.logger.warn(`Could not fetch balance: ${e}`);
         }
-      } catch (e) {
-        this.runtime.logger.warn(`Could not fetch balance: ${e}`);
       }
 
-      this.runtime.logger.info(`IQ service started for ${this.settings.agentName}`);
-      this.runtime.logger.info(`Wallet: ${this.getWalletAddress()}`);
+      this.runtime.logger.info(`IQ service started for ${this.settings.agentName}${this.isReadOnly() ? " (read-only)" : ""}`);
+      this.runtime.logger.info(`Wallet: ${this.getWalletAddress() || "(none)"}`);
+      if (this.identities.size > 1) {
+        this.runtime.logger.info(
+          `Identities: ${this.getIdentities().map((i) => `${i.name} (${i.displayName}, ${i.wallet})`).join(", ")}`
+        );
+      }
       this.runtime.logger.info(`Balance: ${balance > 0 ? balance + " SOL" : "(unknown)"}`);
       this.runtime.logger.info(`Connected chatrooms: ${this.getConnectedChatrooms().join(", ")}`);
 
-      // Register send handler
-      if (typeof this.runtime.registerSendHandlers === "function") {
+      // Register send handler (replies need a wallet to sign)
+      if (!this.isReadOnly() && typeof this.runtime.registerSendHandlers === "function") {
         this.runtime.registerSendHandlers([
           {
             sources: ["iq"],
@@ -155,8 +435,8 @@ export class IQService extends Service implements IIQService {
         ]);
       }
 
-      // Start polling all chatrooms for new messages
-      this.startMessagePolling();
+      // Subscribe to all chatrooms for new messages
+      this.startSubscriptions();
     } catch (error) {
       this.runtime.logger.error(`Failed to start IQ service: ${error}`);
       throw error;
@@ -164,6 +444,12 @@ export class IQService extends Service implements IIQService {
   }
 
   async stop(): Promise<void> {
+    if (this.dmDiscoveryTimer) clearInterval(this.dmDiscoveryTimer);
+    this.dmDiscoveryTimer = null;
+    await this.subscriptions?.stop();
+    this.subscriptions = null;
+    this.outboundQueue?.stop();
+    this.txManager?.stop();
     this.runtime.logger.info("IQ service stopped");
   }
 
@@ -174,202 +460,958 @@ export class IQService extends Service implements IIQService {
     const existing = this.chatrooms.get(key);
     if (existing) return existing;
 
+    // A room the agent left can still be written to or read, but isn't polled
+    if (this.hasLeft(chatroomName)) return this.deriveChatroom(chatroomName);
+
+    const chatroom = this.deriveChatroom(chatroomName);
+
+    this.chatrooms.set(key, chatroom);
+    this.subscriptions?.subscribe(chatroom);
+    this.runtime.logger.info(`Connected to chatroom: ${chatroomName} (${chatroom.tablePda})`);
+
+    this.runtime.emitEvent(IQEventTypes.CHATROOM_CONNECTED as string, {
+      chatroom: chatroomName,
+      tablePda: chatroom.tablePda,
+    });
+
+    return chatroom;
+  }
+
+  /**
+   * A chatroom for a lookup that shouldn't connect to it: the connected room when there
+   * is one (its table meta may already be loaded), otherwise a derived one
+   */
+  private lookupChatroom(chatroomName: string): IQChatroom {
+    return this.chatrooms.get(chatroomName.toLowerCase()) ?? this.deriveChatroom(chatroomName);
+  }
+
+  /**
+   * Derive a chatroom's table seed and PDA without connecting to it
+   */
+  private deriveChatroom(chatroomName: string): IQChatroom {
     if (!this.dbRootId || !this.dbRootPda) {
       throw new Error("Cannot create chatroom config - service not initialized");
     }
 
-    const tableSeed = sha256(`${CHATROOM_PREFIX}${chatroomName}`);
+    const tableSeed = sha256(tableNameFor(chatroomName));
     const tablePda = iqlabs.contract.getTablePda(this.dbRootPda, tableSeed);
-    const tablePdaStr = tablePda.toBase58();
+    const dmWith = chatroomName.startsWith(DM_PREFIX)
+      ? chatroomName.slice(DM_PREFIX.length).split(":").find((w) => !this.isOwnWallet(w))
+      : undefined;
 
-    const chatroom: IQChatroom = {
+    return {
       name: chatroomName,
       dbRootId: this.dbRootId as Buffer,
       tableSeed: tableSeed as Buffer,
-      tablePda: tablePdaStr,
+      tablePda: tablePda.toBase58(),
+      ...(dmWith ? { dmWith } : {}),
     };
+  }
 
-    this.chatrooms.set(key, chatroom);
-    this.runtime.logger.info(`Connected to chatroom: ${chatroomName} (${tablePdaStr})`);
+  /**
+   * Resolve a send or read target: a wallet address means the DM table with that
+   * wallet, a DM table name is used as is, anything else is a chatroom reference.
+   */
+  private resolveTarget(ref: string, options: { allowNew?: boolean; identity?: string } = {}): string {
+    const target = ref.trim();
+    if (isWalletAddress(target)) return this.directMessageName(target, options.identity);
+    if (target.startsWith(DM_PREFIX)) return target;
+    return this.resolveChatroom(target, options);
+  }
 
-    this.runtime.emitEvent(IQEventTypes.CHATROOM_CONNECTED as string, {
-      chatroom: chatroomName,
-      tablePda: tablePdaStr,
-    });
+  /**
+   * Resolve a chatroom reference to an exact name by ranked matching (exact, alias,
+   * prefix, token, edit distance) against known rooms. Throws IQAmbiguousChatroomError
+   * when several rooms match equally well. A reference matching no known room is used
+   * as a new room name only with `allowNew` or IQ_UNKNOWN_CHATROOM_POLICY=connect;
+   * otherwise IQChatroomNotFoundError is thrown.
+   */
+  resolveChatroom(ref: string, options: { allowNew?: boolean } = {}): string {
+    if (!ref?.trim()) return this.settings.defaultChatroom;
+
+    const resolution = this.matchChatroom(ref);
+    switch (resolution.status) {
+      case "resolved":
+        return resolution.chatroom;
+      case "ambiguous":
+        throw new IQAmbiguousChatroomError(ref, resolution.candidates.map((c) => c.name));
+      case "not_found":
+        if (options.allowNew || this.settings.unknownChatroomPolicy === "connect") return ref.trim();
+        throw new IQChatroomNotFoundError(ref);
+    }
+  }
 
-    return chatroom;
+  /**
+   * Rank known chatrooms (connected, configured, joined, left and discovered) against a reference
+   */
+  matchChatroom(ref: string): IQChatroomResolution {
+    const known = new Set<string>([
+      ...this.getConnectedChatrooms(),
+      ...this.settings.chatrooms,
+      ...this.membership.joined,
+      ...this.membership.left,
+      ...(this.directory?.getCachedNames() ?? []),
+    ]);
+    return resolveChatroomRef(ref, Array.from(known), this.settings.chatroomAliases);
   }
 
-  resolveChatroom(ref: string): string {
-    if (!ref) return this.settings.defaultChatroom;
-    const refLower = ref.toLowerCase().trim();
 
-    for (const [key, chatroom] of this.chatrooms) {
-      if (key === refLower) return chatroom.name;
+  /**
+   * Create a chatroom's table on-chain with the standard message columns, unless it
+   * already exists. Connects to the chatroom unless `options.connect` is false.
+   */
+  async createChatroom(name: string, options: IQCreateChatroomOptions = {}): Promise<IQCreateChatroomResult> {
+    if (!this.signer) throw new IQWalletRequiredError("createChatroom");
+    if (!this.connection || !this.dbRootId) {
+      throw new Error("IQ service not initialized");
+    }
+
+    const chatroomName = name.trim();
+    if (!chatroomName) throw new Error("Chatroom name is required");
+
+    const chatroom = options.connect === false ? this.deriveChatroom(chatroomName) : this.ensureChatroom(chatroomName);
+
+    // Concurrent sends to a new room share one create transaction
+    const pending = this.pendingCreates.get(chatroom.tablePda);
+    if (pending) return pending;
+
+    const creation = this.createChatroomTable(chatroom, options).finally(() => {
+      this.pendingCreates.delete(chatroom.tablePda);
+    });
+    this.pendingCreates.set(chatroom.tablePda, creation);
+    return creation;
+  }
+
+  private async createChatroomTable(
+    chatroom: IQChatroom,
+    options: IQCreateChatroomOptions
+  ): Promise<IQCreateChatroomResult> {
+    // An existing room keeps its gate and writers; they are fixed at creation
+    if (await this.tableExists(chatroom.tablePda)) {
+      return { chatroom: chatroom.name, tablePda: chatroom.tablePda, created: false };
     }
-    for (const [key, chatroom] of this.chatrooms) {
-      if (key.includes(refLower) || refLower.includes(key)) return chatroom.name;
+
+    const gate = options.gate
+      ? {
+          mint: new PublicKey(options.gate.mint),
+          amount: options.gate.amount ?? 1,
+          gateType:
+            options.gate.gateType === "collection" ? iqlabs.contract.GateType.Collection : iqlabs.contract.GateType.Token,
+        }
+      : undefined;
+    // DM tables are only used when exactly their two parties may write
+    const writerList = chatroom.name.startsWith(DM_PREFIX)
+      ? chatroom.name.slice(DM_PREFIX.length).split(":")
+      : options.writers;
+    const writers = writerList?.length ? writerList.map((w) => new PublicKey(w)) : undefined;
+
+    await this.assertCanSpend(this.findIdentity()!);
+    this.runtime.logger.info(`Creating chatroom table for ${chatroom.name} (${chatroom.tablePda})`);
+    // The SDK types createTable's signer as a web3 Signer, but it only reads the public
+    // key and signs through its wallet-signer path, so any Signer works
+    const txSig = await iqlabs.writer.createTable(
+      this.connection!,
+      this.signer! as unknown as Web3Signer,
+      chatroom.dbRootId,
+      chatroom.tableSeed,
+      tableNameFor(chatroom.name),
+      [...MESSAGE_COLUMNS],
+      "id",
+      [],
+      gate,
+      writers,
+      // Stored on the db root so the table can be found later: chatroom:<name> for rooms,
+      // which list() shows, and dm:<walletA>:<walletB> for DMs, which only their parties look up
+      tableNameFor(chatroom.name)
+    );
+    this.existingTables.add(chatroom.tablePda);
+    void this.recordSpend(txSig, "chatroom");
+    if (options.gate) {
+      chatroom.gate = {
+        mint: options.gate.mint,
+        amount: options.gate.amount ?? 1,
+        gateType: options.gate.gateType ?? "token",
+      };
     }
+    if (writerList?.length) chatroom.writers = [...writerList];
+    chatroom.columns = [...MESSAGE_COLUMNS];
+    this.metaLoadedAt.set(chatroom.tablePda, Date.now());
+
+    this.runtime.emitEvent(IQEventTypes.CHATROOM_CREATED as string, {
+      chatroom: chatroom.name,
+      tablePda: chatroom.tablePda,
+      txSig,
+    });
 
-    return this.ensureChatroom(ref).name;
+    return { chatroom: chatroom.name, tablePda: chatroom.tablePda, created: true, txSig };
   }
 
-  getConnectedChatrooms(): string[] {
-    return Array.from(this.chatrooms.values()).map((c) => c.name);
+  private async tableExists(tablePda: string): Promise<boolean> {
+    if (this.existingTables.has(tablePda)) return true;
+    const info = await this.connection!.getAccountInfo(new PublicKey(tablePda));
+    if (info) this.existingTables.add(tablePda);
+    return !!info;
   }
 
-  getDefaultChatroom(): string {
-    return this.settings.defaultChatroom;
+  /**
+   * List chatrooms under the database root with creators and recent activity,
+   * most recently active first. Results are cached for a few minutes unless `refresh` is set.
+   */
+  async listChatrooms(refresh = false): Promise<IQChatroomListing[]> {
+    if (!this.directory) throw new Error("IQ service not initialized");
+    const listings = await this.directory.list(refresh);
+    return listings.map((listing) => ({
+      ...listing,
+      connected: this.chatrooms.has(listing.name.toLowerCase()),
+    }));
   }
 
-  // ==================== WALLET ====================
+  /**
+   * Get a chatroom with its gate and writer list loaded from the table account
+   */
+  async getChatroomInfo(ref: string): Promise<IQChatroom> {
+    const chatroom = this.lookupChatroom(this.resolveChatroom(ref));
+    await this.loadChatroomMeta(chatroom);
+    return { ...chatroom };
+  }
 
-  getWalletAddress(): string {
-    if (!this.keypair) return "";
-    return this.keypair.publicKey.toBase58();
+  /**
+   * Read a chatroom's gate and writer list from its table account. Returns false if
+   * the table doesn't exist yet.
+   */
+  private async loadChatroomMeta(chatroom: IQChatroom): Promise<boolean> {
+    // Loaded rooms always have columns; a fresh copy of a loaded room has to read them
+    const loadedAt = this.metaLoadedAt.get(chatroom.tablePda);
+    if (loadedAt && chatroom.columns && Date.now() - loadedAt < CHATROOM_DEFAULTS.metaTtlMs) return true;
+    if (!this.connection) throw new Error("IQ service not initialized");
+
+    const info = await this.connection.getAccountInfo(new PublicKey(chatroom.tablePda));
+    if (!info) return false;
+    this.existingTables.add(chatroom.tablePda);
+
+    const meta = iqlabs.reader.decodeTableMeta(info.data);
+    // An open table stores the system program as its gate mint
+    const gated = !meta.gate.mint.equals(SystemProgram.programId);
+    chatroom.gate = gated
+      ? {
+          mint: meta.gate.mint.toBase58(),
+          amount: meta.gate.amount.toNumber(),
+          gateType: meta.gate.gateType === iqlabs.contract.GateType.Collection ? "collection" : "token",
+        }
+      : undefined;
+    chatroom.writers = meta.writers.map((w) => w.toBase58());
+    chatroom.columns = meta.columns;
+    this.metaLoadedAt.set(chatroom.tablePda, Date.now());
+    return true;
   }
 
-  async getBalance(): Promise<number> {
-    if (!this.connection || !this.keypair) return 0;
-    try {
-      const balance = await this.connection.getBalance(this.keypair.publicKey);
-      return balance / 1e9;
-    } catch {
-      return 0;
+  /**
+   * Check whether the agent's wallet may write to a chatroom. Rooms whose table doesn't
+   * exist yet are reported as writable (creating them is up to the caller).
+   */
+  async checkWriteAccess(chatroom?: string, identity?: string): Promise<IQWriteAccess> {
+    if (!this.signer) return { allowed: false, reason: "No wallet configured" };
+
+    const targetName = chatroom ? this.resolveTarget(chatroom, { identity }) : this.settings.defaultChatroom;
+    const target = this.lookupChatroom(targetName);
+    const signer = this.findIdentity(targetName, identity)!;
+    if (!(await this.loadChatroomMeta(target))) return { allowed: true };
+
+    const wallet = signer.wallet;
+    if (target.writers?.length && !target.writers.includes(wallet)) {
+      return { allowed: false, reason: `only ${target.writers.length} listed wallet(s) may write, and ${wallet} is not one of them` };
+    }
+
+    if (target.gate) {
+      const held = await this.getTokenAmount(target.gate.mint, signer.signer.publicKey);
+      const required = target.gate.gateType === "collection" ? 1 : target.gate.amount;
+      if (held < BigInt(required)) {
+        const what = target.gate.gateType === "collection" ? "an NFT from collection" : `${required} units of token`;
+        return { allowed: false, reason: `the room is token-gated; the wallet must hold ${what} ${target.gate.mint}` };
+      }
     }
+
+    return { allowed: true };
   }
 
-  // ==================== MESSAGING ====================
+  /**
+   * Raw amount of a mint held by a wallet, across all its token accounts
+   */
+  private async getTokenAmount(mint: string, owner: PublicKey): Promise<bigint> {
+    const { value } = await this.connection!.getParsedTokenAccountsByOwner(owner, {
+      mint: new PublicKey(mint),
+    });
+    return value.reduce(
+      (sum, { account }) => sum + BigInt(account.data.parsed?.info?.tokenAmount?.amount ?? 0),
+      BigInt(0)
+    );
+  }
 
-  async sendMessage(content: string, chatroom?: string): Promise<string> {
-    if (!this.connection || !this.keypair || !this.dbRootId) {
-      throw new Error("IQ service not initialized");
+  /**
+   * Throw IQWriteNotAllowedError if the wallet may not write to a chatroom.
+   * Lookup failures don't block the write; the transaction is the final check.
+   */
+  private async assertCanWrite(chatroomName: string, identity?: string): Promise<void> {
+    let access: IQWriteAccess;
+    try {
+      access = await this.checkWriteAccess(chatroomName, identity);
+    } catch (error) {
+      this.runtime.logger.debug(`Could not check write access for ${chatroomName}: ${error}`);
+      return;
     }
+    if (!access.allowed) throw new IQWriteNotAllowedError(chatroomName, access.reason ?? "not allowed");
+  }
 
-    const targetName = chatroom ? this.resolveChatroom(chatroom) : this.settings.defaultChatroom;
-    const targetChatroom = this.ensureChatroom(targetName);
+  getConnectedChatrooms(): string[] {
+    return Array.from(this.chatrooms.values())
+      .filter((c) => !c.dmWith)
+      .map((c) => c.name);
+  }
 
-    const message: IQMessage = {
-      id: nanoid(),
-      agent: this.settings.agentName,
-      wallet: this.keypair.publicKey.toBase58(),
-      content,
-      timestamp: new Date().toISOString(),
-      chatroom: targetName,
-    };
+  // ==================== DIRECT MESSAGES ====================
 
-    try {
-      const txSig = await iqlabs.writer.writeRow(
-        this.connection,
-        this.keypair,
-        this.dbRootId,
-        targetChatroom.tableSeed,
-        JSON.stringify(message)
-      );
+  getDirectMessageWallets(): string[] {
+    return Array.from(this.chatrooms.values())
+      .filter((c) => c.dmWith)
+      .map((c) => c.dmWith!);
+  }
 
-      this.seenMessages.add(message.id);
-      this.trackTokenCall(content).catch(() => {});
+  /**
+   * DM table name for one of the agent's identities and another wallet:
+   * dm:<walletA>:<walletB>, sorted, so both parties derive the same table
+   */
+  private directMessageName(wallet: string, identity?: string): string {
+    const own = this.findIdentity(undefined, identity)?.wallet;
+    if (!own) throw new IQWalletRequiredError("directMessage");
+    if (this.isOwnWallet(wallet)) throw new Error("Cannot open a direct message channel with one of the agent's own wallets");
+    const [a, b] = [own, wallet].sort();
+    return `${DM_PREFIX}${a}:${b}`;
+  }
 
-      this.runtime.emitEvent(IQEventTypes.MESSAGE_SENT as string, {
-        message,
-        chatroom: targetName,
-        txSig,
+  /**
+   * Create the DM table with a wallet if needed. Only the two parties may write to it;
+   * an existing table that lets anyone else write is refused.
+   */
+  private async ensureDirectMessageTable(chatroom: IQChatroom): Promise<void> {
+    const pending = this.pendingCreates.get(chatroom.tablePda);
+    if (pending) {
+      await pending;
+    } else {
+      const creation = this.createChatroomTable(chatroom, {}).finally(() => {
+        this.pendingCreates.delete(chatroom.tablePda);
       });
+      this.pendingCreates.set(chatroom.tablePda, creation);
+      await creation;
+    }
 
-      this.runtime.logger.debug(`Sent message to ${targetName}: ${txSig}`);
-      return txSig;
-    } catch (error) {
-      this.runtime.logger.error(`Failed to send message to ${targetName}: ${error}`);
-      throw error;
+    if (!(await this.hasDirectMessageWriters(chatroom))) {
+      throw new IQWriteNotAllowedError(chatroom.name, "the table's writers are not exactly the two DM parties");
     }
   }
 
-  async readMessages(limit = MESSAGE_LIMITS.defaultReadLimit, chatroom?: string): Promise<IQMessage[]> {
-    const targetName = chatroom ? this.resolveChatroom(chatroom) : this.settings.defaultChatroom;
-    const targetChatroom = this.ensureChatroom(targetName);
+  /**
+   * Whether a DM table's writer list is exactly its two parties. Anyone can create the
+   * table for a DM name first, with no writer list or with themselves on it.
+   */
+  private async hasDirectMessageWriters(chatroom: IQChatroom): Promise<boolean> {
+    if (!(await this.loadChatroomMeta(chatroom))) return false;
+    const parties = chatroom.name.slice(DM_PREFIX.length).split(":");
+    const writers = chatroom.writers ?? [];
+    return writers.length === parties.length && parties.every((p) => writers.includes(p));
+  }
 
-    // Try the IQ API first
+  /**
+   * Connect to DM tables under the database root that include one of the agent's wallets
+   */
+  private async discoverDirectMessages(): Promise<void> {
+    if (!this.directory || !this.signer) return;
     try {
-      const apiUrl = `${URLS.base}/api/v1/messages?chatroom=${encodeURIComponent(targetName)}&limit=${limit}`;
-      const response = await fetch(apiUrl);
-      if (response.ok) {
-        const data = await response.json();
-        return ((data.messages || []) as IQMessage[]).map((m) => ({ ...m, chatroom: targetName }));
+      const names = new Set<string>();
+      for (const identity of this.identities.values()) {
+        for (const name of await this.directory.listDirectMessageTables(identity.wallet)) names.add(name);
+      }
+      for (const name of names) {
+        if (this.chatrooms.has(name.toLowerCase())) continue;
+        if (!(await this.hasDirectMessageWriters(this.deriveChatroom(name)))) {
+          this.runtime.logger.warn(`Ignored direct message table ${name}: its writers are not exactly the two parties`);
+          continue;
+        }
+        const chatroom = this.ensureChatroom(name);
+        await this.getReadCursor(chatroom.name);
+        this.runtime.logger.info(`Found direct message channel with ${chatroom.dmWith}`);
       }
     } catch (error) {
-      this.runtime.logger.debug(`API read failed for ${targetName}: ${error}`);
+      this.runtime.logger.debug(`Could not look up direct message tables: ${error}`);
     }
+  }
 
-    // Try gateway
-    if (targetChatroom.tablePda) {
-      try {
-        const gatewayUrl = `${this.settings.gatewayUrl}/table/${targetChatroom.tablePda}/rows?limit=${limit}`;
-        const response = await fetch(gatewayUrl);
-        if (response.ok) {
-          const data = await response.json();
-          return ((data.rows || data || []) as IQMessage[]).map((m) => ({ ...m, chatroom: targetName }));
-        }
-      } catch (error) {
-        this.runtime.logger.debug(`Gateway read failed for ${targetName}: ${error}`);
-      }
+  /**
+   * Connect to a chatroom and start polling it. The membership is persisted, so the
+   * room is rejoined after a restart.
+   */
+  async joinChatroom(name: string): Promise<IQChatroom> {
+    if (!name.trim()) throw new Error("Chatroom name is required");
+    // Joining is explicit, so an unknown name is taken as a new room
+    const chatroomName = this.resolveChatroom(name, { allowNew: true });
+
+    const key = chatroomName.toLowerCase();
+    this.membership.left = this.membership.left.filter((n) => n.toLowerCase() !== key);
+    const configured = this.settings.chatrooms.some((n) => n.toLowerCase() === key);
+    if (!configured && !this.membership.joined.some((n) => n.toLowerCase() === key)) {
+      this.membership.joined.push(chatroomName);
     }
+    await this.saveMembership();
 
-    // Fallback to direct on-chain read via SDK
-    if (targetChatroom.tablePda) {
-      try {
-        const rows = await iqlabs.reader.readTableRows(targetChatroom.tablePda, { limit });
-        return (rows as IQMessage[]).map((m) => ({ ...m, chatroom: targetName }));
-      } catch (error) {
-        this.runtime.logger.error(`Direct on-chain read failed for ${targetName}: ${error}`);
-      }
+    const chatroom = this.ensureChatroom(chatroomName);
+    await this.getReadCursor(chatroom.name);
+    return { ...chatroom };
+  }
+
+  /**
+   * Stop polling a connected chatroom and disconnect from it. The membership is
+   * persisted, so the room stays left after a restart. The default chatroom can't be left.
+   */
+  async leaveChatroom(ref: string): Promise<string> {
+    const chatroom = this.findConnectedChatroom(ref);
+    if (!chatroom) throw new Error(`Not connected to a chatroom matching "${ref}"`);
+    if (chatroom.name.toLowerCase() === this.settings.defaultChatroom.toLowerCase()) {
+      throw new Error(`Cannot leave the default chatroom "${chatroom.name}"`);
     }
 
-    return [];
+    const key = chatroom.name.toLowerCase();
+    this.chatrooms.delete(key);
+    await this.subscriptions?.unsubscribe(chatroom.name);
+
+    this.membership.joined = this.membership.joined.filter((n) => n.toLowerCase() !== key);
+    if (!this.hasLeft(chatroom.name)) this.membership.left.push(chatroom.name);
+    await this.saveMembership();
+
+    this.runtime.logger.info(`Disconnected from chatroom: ${chatroom.name}`);
+    this.runtime.emitEvent(IQEventTypes.CHATROOM_DISCONNECTED as string, {
+      chatroom: chatroom.name,
+      tablePda: chatroom.tablePda,
+    });
+
+    return chatroom.name;
   }
 
-  // ==================== MOLTBOOK ====================
+  /**
+   * Match a reference against connected chatrooms only
+   */
+  private findConnectedChatroom(ref: string): IQChatroom | undefined {
+    const resolution = resolveChatroomRef(ref, this.getConnectedChatrooms(), this.settings.chatroomAliases);
+    if (resolution.status === "ambiguous") {
+      throw new IQAmbiguousChatroomError(ref, resolution.candidates.map((c) => c.name));
+    }
+    return resolution.status === "resolved" ? this.chatrooms.get(resolution.chatroom.toLowerCase()) : undefined;
+  }
 
-  async moltbookPost(submolt: string, title: string, content: string): Promise<string> {
-    if (!this.settings.moltbookToken) throw new Error("MOLTBOOK_TOKEN not set");
+
+  private hasLeft(chatroomName: string): boolean {
+    const key = chatroomName.toLowerCase();
+    return this.membership.left.some((n) => n.toLowerCase() === key);
+  }
+
+  /**
+   * Load persisted membership and return the chatrooms to connect to
+   */
+  private async loadMembership(): Promise<string[]> {
     try {
-      const response = await fetch(`${URLS.moltbook}/posts`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${this.settings.moltbookToken}`, "Content-Type": "application/json" },
-        body: JSON.stringify({ submolt, title, content }),
-      });
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.error || JSON.stringify(data));
-      this.runtime.emitEvent(IQEventTypes.MOLTBOOK_POST_CREATED as string, { postId: data.post?.id, submolt, title });
-      return data.post?.id || "success";
+      const saved = await this.runtime.getCache<IQMembership>(CACHE_KEYS.membership);
+      if (saved) this.membership = { joined: saved.joined ?? [], left: saved.left ?? [] };
     } catch (error) {
-      this.runtime.logger.error(`Failed to post to Moltbook: ${error}`);
-      throw error;
+      this.runtime.logger.debug(`Could not load chatroom membership: ${error}`);
+    }
+
+    const rooms = [...this.settings.chatrooms, ...this.membership.joined].filter((n) => !this.hasLeft(n));
+    // The default chatroom is always connected
+    if (this.hasLeft(this.settings.defaultChatroom)) {
+      this.membership.left = this.membership.left.filter(
+        (n) => n.toLowerCase() !== this.settings.defaultChatroom.toLowerCase()
+      );
+      rooms.unshift(this.settings.defaultChatroom);
     }
+    return rooms;
   }
 
-  async moltbookBrowse(submolt?: string, sort = "hot"): Promise<MoltbookPost[]> {
+  private async saveMembership(): Promise<void> {
     try {
-      const url = submolt
-        ? `${URLS.moltbook}/submolts/${submolt}/feed?sort=${sort}&limit=10`
-        : `${URLS.moltbook}/posts?sort=${sort}&limit=10`;
-      const response = await fetch(url);
-      const data = await response.json();
-      return (data.posts || []) as MoltbookPost[];
+      await this.runtime.setCache(CACHE_KEYS.membership, this.membership);
     } catch (error) {
-      this.runtime.logger.error(`Failed to browse Moltbook: ${error}`);
-      return [];
+      this.runtime.logger.debug(`Could not persist chatroom membership: ${error}`);
     }
   }
 
-  async moltbookComment(postId: string, content: string): Promise<string> {
-    if (!this.settings.moltbookToken) throw new Error("MOLTBOOK_TOKEN not set");
-    try {
-      const response = await fetch(`${URLS.moltbook}/posts/${postId}/comments`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${this.settings.moltbookToken}`, "Content-Type": "application/json" },
-        body: JSON.stringify({ content }),
-      });
-      const data = await response.json();
+  getDefaultChatroom(): string {
+    return this.settings.defaultChatroom;
+  }
+
+  // ==================== WALLET ====================
+
+  isReadOnly(): boolean {
+    return !this.signer;
+  }
+
+  getCapabilities(): IQCapabilities {
+    const canWrite = !this.isReadOnly();
+    return {
+      readMessages: true,
+      sendMessages: canWrite,
+      inscribeData: canWrite,
+      createChatrooms: canWrite,
+      moltbookBrowse: true,
+      moltbookPost: !!this.settings.moltbookToken,
+    };
+  }
+
+  getWalletAddress(): string {
+    if (!this.signer) return "";
+    return this.signer.publicKey.toBase58();
+  }
+
+  getIdentities(): IQIdentity[] {
+    return Array.from(this.identities.values()).map((identity) => ({
+      name: identity.name,
+      displayName: identity.displayName,
+      wallet: identity.wallet,
+      isDefault: identity.signer === this.signer,
+    }));
+  }
+
+  private async loadIdentities(): Promise<void> {
+    const configs: IQIdentityConfig[] = [
+      {
+        name: DEFAULT_IDENTITY,
+        displayName: this.settings.agentName,
+        privateKey: this.settings.privateKey,
+        keypairPath: this.settings.keypairPath,
+        keystorePath: this.settings.keystorePath,
+        keystorePassphrase: this.settings.keystorePassphrase,
+        remoteSignerUrl: this.settings.remoteSignerUrl,
+        remoteSignerPublicKey: this.settings.remoteSignerPublicKey,
+        remoteSignerToken: this.settings.remoteSignerToken,
+      },
+      ...this.settings.identities,
+    ];
+
+    for (const config of configs) {
+      const loaded = await loadSigner(config);
+      if (!loaded) continue;
+      const key = config.name.toLowerCase();
+      if (this.identities.has(key)) {
+        this.runtime.logger.warn(`Duplicate identity "${config.name}" ignored`);
+        continue;
+      }
+      this.identities.set(key, {
+        name: config.name,
+        displayName: config.displayName ?? this.settings.agentName,
+        signer: loaded.signer,
+        wallet: loaded.signer.publicKey.toBase58(),
+      });
+      this.runtime.logger.info(`Loaded signer for identity "${config.name}" from ${loaded.source}`);
+    }
+
+    this.signer = this.identities.values().next().value?.signer ?? null;
+  }
+
+  /**
+   * Identity to write as: the explicit one, else the chatroom's configured identity
+   * (for DM tables, the identity that is party to it), else the default.
+   * Undefined in read-only mode.
+   */
+  private findIdentity(chatroomName?: string, explicit?: string): LoadedIdentity | undefined {
+    if (explicit) {
+      const identity = this.identities.get(explicit.toLowerCase());
+      if (!identity) throw new IQIdentityNotFoundError(explicit);
+      return identity;
+    }
+
+    if (chatroomName?.startsWith(DM_PREFIX)) {
+      const parties = chatroomName.slice(DM_PREFIX.length).split(":");
+      const party = Array.from(this.identities.values()).find((i) => parties.includes(i.wallet));
+      if (party) return party;
+    }
+
+    const mapped = chatroomName ? this.settings.chatroomIdentities[chatroomName.toLowerCase()] : undefined;
+    if (mapped) {
+      const identity = this.identities.get(mapped.toLowerCase());
+      if (identity) return identity;
+      this.runtime.logger.warn(`Chatroom ${chatroomName} maps to unknown identity "${mapped}", using the default`);
+    }
+
+    return this.identities.values().next().value;
+  }
+
+  private isOwnWallet(wallet: string): boolean {
+    return Array.from(this.identities.values()).some((identity) => identity.wallet === wallet);
+  }
+
+  async getBalance(): Promise<number> {
+    if (!this.connection || !this.signer) return 0;
+    try {
+      const balance = await this.connection.getBalance(this.signer.publicKey);
+      return balance / 1e9;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * SPL Token and Token-2022 holdings, summed per mint, with symbol and name where the
+   * metadata resolver knows them. Empty accounts are left out; results are reused for a minute.
+   */
+  async getTokenBalances(identity?: string): Promise<IQTokenBalance[]> {
+    if (!this.connection || !this.signer) return [];
+    const owner = this.findIdentity(undefined, identity)!;
+    const cached = this.tokenBalances.get(owner.wallet);
+    if (cached && Date.now() - cached.at < TOKEN_DEFAULTS.balanceCacheMs) return cached.balances;
+
+    const byMint = new Map<string, IQTokenBalance>();
+    for (const programId of [PROGRAM_IDS.token, PROGRAM_IDS.token2022]) {
+      const { value } = await this.connection.getParsedTokenAccountsByOwner(owner.signer.publicKey, {
+        programId: new PublicKey(programId),
+      });
+      for (const { account } of value) {
+        const info = account.data.parsed?.info;
+        const tokenAmount = info?.tokenAmount;
+        if (!info?.mint || !tokenAmount || tokenAmount.amount === "0") continue;
+        const amount = BigInt(byMint.get(info.mint)?.amount ?? 0) + BigInt(tokenAmount.amount);
+        byMint.set(info.mint, {
+          mint: info.mint,
+          amount: amount.toString(),
+          decimals: tokenAmount.decimals,
+          uiAmount: Number(amount) / 10 ** tokenAmount.decimals,
+          programId,
+        });
+      }
+    }
+
+    const balances = Array.from(byMint.values());
+    await this.applyTokenMetadata(balances);
+    balances.sort((a, b) => b.uiAmount - a.uiAmount);
+    this.tokenBalances.set(owner.wallet, { at: Date.now(), balances });
+    return balances;
+  }
+
+  /**
+   * Replace the token metadata resolver (on-chain Metaplex / Token-2022 metadata by default)
+   */
+  setTokenMetadataResolver(resolver: TokenMetadataResolver): void {
+    this.tokenMetadataResolver = resolver;
+    this.tokenMetadata.clear();
+    this.tokenBalances.clear();
+  }
+
+  private async applyTokenMetadata(balances: IQTokenBalance[]): Promise<void> {
+    const unknown = balances.map((b) => b.mint).filter((mint) => !this.tokenMetadata.has(mint));
+    if (unknown.length > 0 && this.tokenMetadataResolver) {
+      try {
+        const found = await this.tokenMetadataResolver.resolve(unknown);
+        for (const mint of unknown) this.tokenMetadata.set(mint, found[mint] ?? null);
+      } catch (error) {
+        this.runtime.logger.debug(`Token metadata lookup failed: ${error}`);
+      }
+    }
+    for (const balance of balances) {
+      const metadata = this.tokenMetadata.get(balance.mint);
+      if (metadata?.symbol) balance.symbol = metadata.symbol;
+      if (metadata?.name) balance.name = metadata.name;
+    }
+  }
+
+  /**
+   * Latest transactions of the default or a named identity's wallet, newest first, each
+   * classified as a message write, inscription, tip or other with its fee and the
+   * chatroom or table it touched
+   */
+  async getRecentTransactions(limit: number = HISTORY_DEFAULTS.defaultLimit, identity?: string): Promise<IQWalletTransaction[]> {
+    if (!this.history || !this.signer) return [];
+    const owner = this.findIdentity(undefined, identity)!;
+    const count = Math.min(Math.floor(limit) || HISTORY_DEFAULTS.defaultLimit, HISTORY_DEFAULTS.maxLimit);
+    return this.history.getRecent(owner.signer.publicKey, count);
+  }
+
+  // ==================== MESSAGING ====================
+
+  async sendMessage(content: string, chatroom?: string, options: IQSendOptions = {}): Promise<string> {
+    if (!this.signer) throw new IQWalletRequiredError("sendMessage");
+    if (!this.connection || !this.dbRootId) {
+      throw new Error("IQ service not initialized");
+    }
+
+    // Creating missing rooms is the explicit policy that lets a send target a new room
+    const createIfMissing = options.createIfMissing ?? this.settings.autoCreateChatrooms;
+    const targetName = chatroom
+      ? this.resolveTarget(chatroom, { allowNew: createIfMissing, identity: options.identity })
+      : this.settings.defaultChatroom;
+    const identity = this.findIdentity(targetName, options.identity)!;
+    await this.assertCanSpend(identity);
+    const targetChatroom = this.ensureChatroom(targetName);
+    if (targetChatroom.dmWith) {
+      // The first message to a wallet opens the DM table
+      await this.ensureDirectMessageTable(targetChatroom);
+    } else if (createIfMissing) {
+      await this.createChatroom(targetName);
+    }
+    await this.assertCanWrite(targetName, identity.name);
+    const columns = await this.messageColumns(targetChatroom);
+
+    // Encrypted messages are one row: the envelope replaces the content, which isn't split
+    const encryptTo = options.encryptTo?.trim();
+    if (encryptTo) {
+      if (!isWalletAddress(encryptTo)) throw new Error(`Cannot encrypt to "${encryptTo}": not a wallet address`);
+      if (options.attachments?.length) throw new Error("Attachments can't be sent in an encrypted message");
+      if (content.length > MESSAGE_LIMITS.maxContentLength) {
+        throw new IQContentTooLongError(content.length, MESSAGE_LIMITS.maxContentLength);
+      }
+      await this.assertSupportsEnvelope(targetChatroom);
+    }
+    const parts = encryptTo ? [content] : this.applyLengthPolicy(content);
+    const groupId = parts.length > 1 ? nanoid() : undefined;
+    if (groupId && !PART_COLUMNS.every((column) => columns.has(column))) {
+      throw new Error(
+        `Chatroom "${targetName}" has no part columns, so messages over ${MESSAGE_LIMITS.maxContentLength} characters can't be split`
+      );
+    }
+
+    // media_tx holds a single signature: the first attachment rides on this message,
+    // any others follow as replies carrying their own media_tx
+    const [attachment, ...extraAttachments] = options.attachments ?? [];
+    if (attachment && !columns.has("media_tx")) {
+      throw new Error(`Chatroom "${targetName}" has no media_tx column, so it can't carry attachments`);
+    }
+    const mediaTx = attachment ? await this.inscribeAttachment(attachment, identity.signer) : undefined;
+
+    const message: IQMessage = {
+      id: groupId ?? nanoid(),
+      agent: identity.displayName,
+      wallet: identity.wallet,
+      content: encryptTo ? ENCRYPTED_PLACEHOLDER : parts.join(""),
+      timestamp: new Date().toISOString(),
+      chatroom: targetName,
+      // Rooms without a reply_to column still get the message, just not the thread link
+      ...(options.replyTo && columns.has("reply_to") ? { reply_to: options.replyTo } : {}),
+      ...(mediaTx ? { media_tx: mediaTx } : {}),
+      ...(encryptTo ? { envelope: await sealMessage(content, encryptTo) } : {}),
+    };
+    // Sign the logical message so readers can verify the sender without an RPC lookup;
+    // rooms without a sig column are verified through the transaction instead
+    if (columns.has("sig")) {
+      message.sig = await signMessageBody(message, tableNameFor(targetChatroom.name), identity.signer);
+    }
+
+    try {
+      // Each part is its own row; reply_to and media_tx ride on the first part only
+      let txSig = "";
+      for (let i = 0; i < parts.length; i++) {
+        const row: IQMessage = groupId
+          ? {
+              ...message,
+              id: nanoid(),
+              content: parts[i],
+              ...(i > 0 ? { reply_to: undefined, media_tx: undefined } : {}),
+              part_group: groupId,
+              part_index: i,
+              part_total: parts.length,
+            }
+          : message;
+
+        const record = await this.writeTrackedRow(targetChatroom.tableSeed, JSON.stringify(row), {
+          kind: "message",
+          messageId: message.id,
+          chatroom: targetName,
+          identity: identity.name,
+        });
+        if (i === 0) txSig = record.signature;
+        this.seenMessages.add(row.id);
+      }
+
+      this.seenMessages.add(message.id);
+      this.sentMessageIds.add(message.id);
+      this.engagement.recordReply(targetName);
+      this.messageIdsByUuid.set(stringToUuid(message.id) as UUID, message.id);
+      if (!encryptTo) this.trackTokenCall(content, identity.wallet).catch(() => {});
+
+      this.runtime.emitEvent(IQEventTypes.MESSAGE_SENT as string, {
+        message,
+        chatroom: targetName,
+        txSig,
+      });
+
+      this.runtime.logger.debug(`Sent message to ${targetName}: ${txSig}`);
+
+      for (const extra of extraAttachments) {
+        await this.sendMessage("", targetName, { replyTo: message.id, attachments: [extra], identity: identity.name });
+      }
+
+      return txSig;
+    } catch (error) {
+      this.runtime.logger.error(`Failed to send message to ${targetName}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Columns a message row may use in a chatroom. The SDK rejects row fields that aren't
+   * table columns, and tables created before a field was added (including the default
+   * rooms) lack it. A table that doesn't exist yet gets the standard columns.
+   */
+  private async messageColumns(chatroom: IQChatroom): Promise<Set<string>> {
+    const loaded = await this.loadChatroomMeta(chatroom);
+    return new Set<string>(loaded && chatroom.columns ? chatroom.columns : MESSAGE_COLUMNS);
+  }
+
+  /**
+   * Tables created before encryption support have no envelope column, and the SDK
+   * rejects row fields that aren't table columns
+   */
+  private async assertSupportsEnvelope(chatroom: IQChatroom): Promise<void> {
+    if (!(await this.loadChatroomMeta(chatroom))) return;
+    if (!chatroom.columns?.includes("envelope")) {
+      throw new Error(`Chatroom "${chatroom.name}" has no envelope column, so it can't carry encrypted messages`);
+    }
+  }
+
+  /**
+   * Decrypt a message sealed to the agent's wallet; undefined when it is addressed to
+   * another wallet or can't be decrypted
+   */
+  private async decryptMessage(msg: IQMessage): Promise<string | undefined> {
+    const envelope = msg.envelope;
+    const recipient = envelope && Array.from(this.identities.values()).find((i) => i.wallet === envelope.to);
+    // Remote signers never expose the key, so their identities can't open envelopes
+    if (!envelope || !recipient?.signer.getEncryptionKey) return undefined;
+    try {
+      return await openEnvelope(envelope, await recipient.signer.getEncryptionKey());
+    } catch (error) {
+      this.runtime.logger.debug(`Could not decrypt message ${msg.id}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply the long-message policy to content over MESSAGE_LIMITS.maxContentLength
+   */
+  private applyLengthPolicy(content: string): string[] {
+    const maxLength = MESSAGE_LIMITS.maxContentLength;
+    if (content.length <= maxLength) return [content];
+
+    switch (this.settings.longMessageMode) {
+      case "reject":
+        throw new IQContentTooLongError(content.length, maxLength);
+      case "truncate":
+        return [`${content.slice(0, maxLength - 1)}…`];
+      default: {
+        const parts = splitContent(content, maxLength);
+        if (parts.length > MESSAGE_LIMITS.maxMessageParts) {
+          throw new IQContentTooLongError(content.length, maxLength * MESSAGE_LIMITS.maxMessageParts);
+        }
+        return parts;
+      }
+    }
+  }
+
+  /**
+   * Read recent messages with multi-part messages reassembled
+   */
+  async readMessages(limit: number = MESSAGE_LIMITS.defaultReadLimit, chatroom?: string): Promise<IQMessage[]> {
+    return reassembleParts(await this.readRawMessages(limit, chatroom));
+  }
+
+  private async readRawMessages(limit: number, chatroom?: string): Promise<IQMessage[]> {
+    const targetName = chatroom ? this.resolveTarget(chatroom) : this.settings.defaultChatroom;
+    const targetChatroom = this.ensureChatroom(targetName);
+
+    try {
+      const messages = await this.readerChain.read(targetChatroom, limit);
+      // Backends may return the envelope column as a JSON string
+      return messages.map((m) => ({
+        ...m,
+        chatroom: targetName,
+        ...(m.envelope ? { envelope: parseEnvelope(m.envelope) } : {}),
+      }));
+    } catch (error) {
+      this.runtime.logger.error(`${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Latency, error counts and circuit state per read backend
+   */
+  getReaderStats(): IQReaderStats[] {
+    return this.readerChain.getStats();
+  }
+
+  private createReaderChain(): ReaderChain {
+    const available: Record<IQReaderName, ChatReader> = {
+      api: new ApiReader(URLS.base),
+      gateway: new GatewayReader(this.settings.gatewayUrl ?? URLS.gateway),
+      sdk: new SdkReader(),
+    };
+
+    return new ReaderChain(
+      this.settings.readBackends.map((name) => available[name]),
+      {
+        timeouts: this.settings.readTimeouts,
+        failureThreshold: this.settings.readFailureThreshold,
+        cooldownMs: this.settings.readCooldownMs,
+        logger: this.runtime.logger,
+      }
+    );
+  }
+
+  async findLatestMessageFrom(sender: string, chatroom?: string): Promise<IQMessage | undefined> {
+    const senderLower = sender.toLowerCase().trim();
+    const messages = await this.readMessages(MESSAGE_LIMITS.pollBatchSize, chatroom);
+    return messages
+      .filter((m) => m.wallet === sender.trim() || m.agent?.toLowerCase() === senderLower)
+      .sort((a, b) => this.messageTime(b) - this.messageTime(a))[0];
+  }
+
+  // ==================== MOLTBOOK ====================
+
+  async moltbookPost(submolt: string, title: string, content: string): Promise<string> {
+    if (!this.settings.moltbookToken) throw new Error("MOLTBOOK_TOKEN not set");
+    try {
+      const response = await fetch(`${URLS.moltbook}/posts`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${this.settings.moltbookToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ submolt, title, content }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || JSON.stringify(data));
+      this.runtime.emitEvent(IQEventTypes.MOLTBOOK_POST_CREATED as string, { postId: data.post?.id, submolt, title });
+      return data.post?.id || "success";
+    } catch (error) {
+      this.runtime.logger.error(`Failed to post to Moltbook: ${error}`);
+      throw error;
+    }
+  }
+
+  async moltbookBrowse(submolt?: string, sort = "hot"): Promise<MoltbookPost[]> {
+    try {
+      const url = submolt
+        ? `${URLS.moltbook}/submolts/${submolt}/feed?sort=${sort}&limit=10`
+        : `${URLS.moltbook}/posts?sort=${sort}&limit=10`;
+      const response = await fetch(url);
+      const data = await response.json();
+      return (data.posts || []) as MoltbookPost[];
+    } catch (error) {
+      this.runtime.logger.error(`Failed to browse Moltbook: ${error}`);
+      return [];
+    }
+  }
+
+  async moltbookComment(postId: string, content: string): Promise<string> {
+    if (!this.settings.moltbookToken) throw new Error("MOLTBOOK_TOKEN not set");
+    try {
+      const response = await fetch(`${URLS.moltbook}/posts/${postId}/comments`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${this.settings.moltbookToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json();
       if (!response.ok) throw new Error(JSON.stringify(data));
       this.runtime.emitEvent(IQEventTypes.MOLTBOOK_COMMENT_CREATED as string, { commentId: data.id, postId });
       return data.id || "success";
@@ -410,13 +1452,20 @@ export class IQService extends Service implements IIQService {
 
   // ==================== DATA INSCRIPTION ====================
 
-  async inscribeData(data: string, table: string): Promise<string> {
-    if (!this.connection || !this.keypair || !this.dbRootId) {
+  async inscribeData(data: string, table: string, identity?: string): Promise<string> {
+    if (!this.signer) throw new IQWalletRequiredError("inscribeData");
+    if (!this.connection || !this.dbRootId) {
       throw new Error("IQ service not initialized");
     }
+    const signer = this.findIdentity(undefined, identity)!;
+    await this.assertCanSpend(signer);
     try {
       const tableSeed = sha256(table);
-      const txSig = await iqlabs.writer.writeRow(this.connection, this.keypair, this.dbRootId, tableSeed, data);
+      const { signature: txSig } = await this.writeTrackedRow(tableSeed, data, {
+        kind: "inscription",
+        table,
+        identity: signer.name,
+      });
       this.runtime.emitEvent(IQEventTypes.DATA_INSCRIBED as string, { table, txSig });
       return txSig;
     } catch (error) {
@@ -425,75 +1474,765 @@ export class IQService extends Service implements IIQService {
     }
   }
 
+  // ==================== SPENDING ====================
+
+  getSpendingStatus(): IQSpendingStatus {
+    return {
+      ...this.spending.getStatus(),
+      minBalance: this.settings.minSolBalance,
+      lowBalance: this.lowBalanceWallets.size > 0,
+    };
+  }
+
+  /**
+   * Refuse a write when a spending budget is used up, or when the signing wallet would
+   * be left below the minimum balance. A failed balance lookup doesn't block the write.
+   */
+  private async assertCanSpend(identity: LoadedIdentity, extraLamports = 0): Promise<void> {
+    const budget = this.spending.check();
+    if (!budget.allowed) {
+      throw new IQBudgetExceededError(budget.period!, budget.budget! / LAMPORTS_PER_SOL, budget.spent! / LAMPORTS_PER_SOL);
+    }
+
+    let lamports: number;
+    try {
+      lamports = await this.connection!.getBalance(identity.signer.publicKey);
+    } catch (error) {
+      this.runtime.logger.debug(`Could not check balance of ${identity.wallet}: ${error}`);
+      return;
+    }
+
+    const balance = lamports / LAMPORTS_PER_SOL;
+    if ((lamports - extraLamports) / LAMPORTS_PER_SOL < this.settings.minSolBalance) {
+      this.reportLowBalance(identity.wallet, balance);
+      throw new IQLowBalanceError(identity.wallet, balance, this.settings.minSolBalance);
+    }
+    this.lowBalanceWallets.delete(identity.wallet);
+  }
+
+  /**
+   * Emit the low balance event when a wallet first drops below the minimum
+   */
+  private reportLowBalance(wallet: string, balance: number): void {
+    if (this.lowBalanceWallets.has(wallet)) return;
+    this.lowBalanceWallets.add(wallet);
+    const payload: IQLowBalancePayload = { wallet, balance, minBalance: this.settings.minSolBalance };
+    this.runtime.emitEvent(IQEventTypes.WALLET_LOW_BALANCE as string, payload);
+  }
+
+  /**
+   * Record what a landed transaction cost. The fee payer's balance drop is the fee plus
+   * any rent paid; transfers count only the fee, since the amount sent is capped separately.
+   */
+  private async recordSpend(signature: string, kind: IQSpendKind): Promise<void> {
+    if (!this.connection) return;
+    try {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      if (!tx?.meta) return;
+      const { fee, preBalances, postBalances } = tx.meta;
+      const lamports = kind === "transfer" ? fee : Math.max(fee, preBalances[0] - postBalances[0]);
+      this.spending.record({ signature, lamports, kind, at: Date.now() });
+    } catch (error) {
+      this.runtime.logger.debug(`Could not record spending for ${signature}: ${error}`);
+    }
+  }
+
+  // ==================== COST ESTIMATES ====================
+
+  /**
+   * What sending a message would cost, simulated without sending it. The rows
+   * sendMessage would write (one per part for long messages) are built with a
+   * placeholder signature of the real length, so no key is asked to sign.
+   */
+  async estimateWriteCost(content: string, chatroom?: string, identity?: string): Promise<IQCostEstimate> {
+    if (!this.signer) throw new IQWalletRequiredError("estimateWriteCost");
+    if (!this.connection || !this.dbRootId) {
+      throw new Error("IQ service not initialized");
+    }
+
+    const targetName = chatroom ? this.resolveTarget(chatroom, { identity }) : this.settings.defaultChatroom;
+    const writer = this.findIdentity(targetName, identity)!;
+    const target = this.deriveChatroom(targetName);
+    const columns = await this.messageColumns(target);
+    const parts = this.applyLengthPolicy(content);
+    const groupId = parts.length > 1 ? nanoid() : undefined;
+    const rows = parts.map((part, i) => {
+      const row: IQMessage = {
+        id: nanoid(),
+        agent: writer.displayName,
+        wallet: writer.wallet,
+        content: part,
+        timestamp: new Date().toISOString(),
+        chatroom: targetName,
+        ...(groupId ? { part_group: groupId, part_index: i, part_total: parts.length } : {}),
+        ...(columns.has("sig") ? { sig: bs58.encode(randomBytes(64)) } : {}),
+      };
+      return JSON.stringify(row);
+    });
+    return this.estimateRows(writer, target.tableSeed, rows);
+  }
+
+  /**
+   * What inscribing data to a table would cost, simulated without sending it
+   */
+  async estimateInscriptionCost(data: string, table: string, identity?: string): Promise<IQCostEstimate> {
+    if (!this.signer) throw new IQWalletRequiredError("estimateInscriptionCost");
+    if (!this.connection || !this.dbRootId) {
+      throw new Error("IQ service not initialized");
+    }
+    return this.estimateRows(this.findIdentity(undefined, identity)!, sha256(table), [data]);
+  }
+
+  /**
+   * Simulate row writes in order and add up their costs, stopping at the first that
+   * fails or that reaches the wallet's IQ account setup
+   */
+  private async estimateRows(identity: LoadedIdentity, tableSeed: Uint8Array, rows: string[]): Promise<IQCostEstimate> {
+    const { connection, dbRootId } = this;
+    const total: IQCostEstimate = { fee: 0, rent: 0, total: 0, transactions: 0, computeUnits: 0, success: true };
+    for (const row of rows) {
+      const estimate = await simulateWrite(connection!, identity.signer.publicKey, (conn, signer) =>
+        iqlabs.writer.writeRow(conn, signer, dbRootId!, tableSeed, row, true)
+      );
+      total.fee += estimate.fee;
+      total.rent += estimate.rent;
+      total.total += estimate.total;
+      total.transactions += estimate.transactions;
+      total.computeUnits += estimate.computeUnits;
+      if (!estimate.success || estimate.accountSetup) {
+        return { ...total, success: estimate.success, error: estimate.error, accountSetup: estimate.accountSetup };
+      }
+    }
+    return total;
+  }
+
+  // ==================== TIPS ====================
+
+  /**
+   * Send SOL to a wallet. The per-tip and daily caps apply to every transfer. The
+   * transfer is sent once and never resent, so a transfer that might still land
+   * can't be paid twice.
+   */
+  async transferSol(to: string, amount: number, identity?: string): Promise<string> {
+    if (!this.signer) throw new IQWalletRequiredError("transferSol");
+    if (!this.connection) {
+      throw new Error("IQ service not initialized");
+    }
+    if (!isWalletAddress(to)) throw new Error(`"${to}" is not a wallet address`);
+    if (this.isOwnWallet(to)) throw new Error("Cannot send SOL to one of the agent's own wallets");
+
+    const lamports = Math.round(amount * LAMPORTS_PER_SOL);
+    if (!Number.isFinite(amount) || lamports <= 0) throw new Error(`Invalid amount: ${amount} SOL`);
+    if (amount > this.settings.tipMaxSol) throw new IQTipLimitError(amount, this.settings.tipMaxSol, "tip");
+
+    const sender = this.findIdentity(undefined, identity)!;
+    const payer = sender.signer;
+    await this.assertCanSpend(sender, lamports);
+    const record = await this.reserveTip(to, lamports);
+    let sent = false;
+    try {
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+      const tx = new Transaction({ feePayer: payer.publicKey, blockhash, lastValidBlockHeight }).add(
+        SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: new PublicKey(to), lamports })
+      );
+      await payer.signTransaction(tx);
+
+      const signature = await this.connection.sendRawTransaction(tx.serialize());
+      sent = true;
+      record.signature = signature;
+
+      const { value } = await this.connection.confirmTransaction(
+        { signature, blockhash, lastValidBlockHeight },
+        this.settings.txCommitment
+      );
+      if (value.err) {
+        sent = false;
+        throw new Error(`Transfer ${signature} failed: ${JSON.stringify(value.err)}`);
+      }
+      this.runtime.logger.info(`Sent ${amount} SOL to ${to}: ${signature}`);
+      void this.recordSpend(signature, "transfer");
+      return signature;
+    } catch (error) {
+      // Only a transfer that can no longer land is taken off the daily total
+      if (!sent || error instanceof TransactionExpiredBlockheightExceededError) {
+        this.tipLedger = this.tipLedger?.filter((t) => t !== record) ?? [];
+      }
+      throw error;
+    } finally {
+      await this.saveTipLedger();
+    }
+  }
+
+  /**
+   * Find a tip recipient: a wallet address, "the last person who spoke in <room>", or a
+   * display name from recent messages. Only messages from verified senders count, and a
+   * display name used by more than one wallet is refused, since names aren't unique.
+   */
+  async resolveTipRecipient(ref: string, chatroom?: string): Promise<IQTipRecipient> {
+    const target = ref.trim().replace(/^@/, "");
+    if (isWalletAddress(target)) return { wallet: target };
+
+    const lastSpeaker = LAST_SPEAKER_PATTERN.exec(target);
+    if (lastSpeaker) {
+      const room = this.resolveChatroom(lastSpeaker[1]?.trim() || chatroom || this.settings.defaultChatroom);
+      const candidates = (await this.readMessages(MESSAGE_LIMITS.pollBatchSize, room))
+        .filter((m) => !this.isOwnWallet(m.wallet))
+        .sort((a, b) => this.messageTime(b) - this.messageTime(a));
+      for (const latest of candidates) {
+        if (!(await this.verifySender(latest, room)).verified) continue;
+        return { wallet: latest.wallet, name: latest.agent, chatroom: room, messageId: latest.id };
+      }
+      throw new IQRecipientNotFoundError(target);
+    }
+
+    const name = target.toLowerCase();
+    const rooms = chatroom ? [this.resolveChatroom(chatroom)] : this.getConnectedChatrooms();
+    const byWallet = new Map<string, { recipient: IQTipRecipient; time: number }>();
+    for (const room of rooms) {
+      for (const m of await this.readMessages(MESSAGE_LIMITS.pollBatchSize, room)) {
+        if (m.agent?.toLowerCase() !== name || this.isOwnWallet(m.wallet)) continue;
+        const time = this.messageTime(m);
+        if ((byWallet.get(m.wallet)?.time ?? -1) >= time) continue;
+        if (!(await this.verifySender(m, room)).verified) continue;
+        byWallet.set(m.wallet, { recipient: { wallet: m.wallet, name: m.agent, chatroom: room, messageId: m.id }, time });
+      }
+    }
+
+    if (byWallet.size !== 1) throw new IQRecipientNotFoundError(target, Array.from(byWallet.keys()));
+    return byWallet.values().next().value!.recipient;
+  }
+
+  /**
+   * Whether a message may ask the agent to tip. Anyone can post in an IQ chatroom, so a
+   * request from there needs a verified sender listed in IQ_TIP_ALLOWED_WALLETS.
+   */
+  canRequestTip(message: Memory): boolean {
+    if (message.content?.source !== "iq") return true;
+    const metadata = message.content.metadata as { wallet?: string; verified?: boolean } | undefined;
+    return !!metadata?.verified && !!metadata.wallet && this.settings.tipAllowedWallets.includes(metadata.wallet);
+  }
+
+  /**
+   * Tip a chat participant and announce it in the chatroom with the transfer signature.
+   * The announcement goes to `options.chatroom`, else the room the recipient was found
+   * in, else the default chatroom; a failed announcement doesn't undo the tip.
+   */
+  async tipUser(ref: string, amount: number, options: IQTipOptions = {}): Promise<IQTipResult> {
+    const room = options.chatroom ? this.resolveChatroom(options.chatroom) : undefined;
+    const recipient = await this.resolveTipRecipient(ref, room);
+    const txSig = await this.transferSol(recipient.wallet, amount, options.identity);
+    const result: IQTipResult = { recipient, amount, txSig };
+
+    this.runtime.emitEvent(IQEventTypes.TIP_SENT as string, { recipient, amount, txSig });
+
+    if (options.announce !== false) {
+      const chatroom = room ?? recipient.chatroom ?? this.settings.defaultChatroom;
+      const who = recipient.name ? `${recipient.name} (${recipient.wallet})` : recipient.wallet;
+      try {
+        result.announcementTx = await this.sendMessage(`Tipped ${who} ${amount} SOL. Tx: ${txSig}`, chatroom, {
+          identity: options.identity,
+          replyTo: recipient.chatroom === chatroom ? recipient.messageId : undefined,
+        });
+        result.chatroom = chatroom;
+      } catch (error) {
+        this.runtime.logger.warn(`Tip ${txSig} sent but not announced in ${chatroom}: ${error}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * SOL that can still be tipped before the daily cap is reached
+   */
+  async getTipAllowance(): Promise<number> {
+    await this.loadTipLedger();
+    const limit = Math.round(this.settings.tipDailyMaxSol * LAMPORTS_PER_SOL);
+    return Math.max(0, limit - this.tippedInWindow()) / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Count a tip against the daily cap before it is sent, so concurrent tips can't overshoot it
+   */
+  private async reserveTip(wallet: string, lamports: number): Promise<IQTipRecord> {
+    await this.loadTipLedger();
+    const limit = Math.round(this.settings.tipDailyMaxSol * LAMPORTS_PER_SOL);
+    const tipped = this.tippedInWindow();
+    if (tipped + lamports > limit) {
+      throw new IQTipLimitError(lamports / LAMPORTS_PER_SOL, Math.max(0, limit - tipped) / LAMPORTS_PER_SOL, "daily");
+    }
+    const record: IQTipRecord = { wallet, lamports, signature: "", at: Date.now() };
+    this.tipLedger!.push(record);
+    return record;
+  }
+
+  /**
+   * Lamports tipped in the last 24 hours; drops older tips from the ledger
+   */
+  private tippedInWindow(): number {
+    const cutoff = Date.now() - TIP_DEFAULTS.windowMs;
+    this.tipLedger = (this.tipLedger ?? []).filter((t) => t.at > cutoff);
+    return this.tipLedger.reduce((sum, t) => sum + t.lamports, 0);
+  }
+
+  private async loadTipLedger(): Promise<void> {
+    if (this.tipLedger) return;
+    let saved: IQTipRecord[] | undefined;
+    try {
+      saved = await this.runtime.getCache<IQTipRecord[]>(CACHE_KEYS.tipLedger);
+    } catch (error) {
+      this.runtime.logger.debug(`Could not load tip ledger: ${error}`);
+    }
+    this.tipLedger ??= saved ?? [];
+  }
+
+  private async saveTipLedger(): Promise<void> {
+    try {
+      await this.runtime.setCache(CACHE_KEYS.tipLedger, this.tipLedger ?? []);
+    } catch (error) {
+      this.runtime.logger.debug(`Could not persist tip ledger: ${error}`);
+    }
+  }
+
+  // ==================== TRANSACTIONS ====================
+
+  /**
+   * Queue a row write. Resolves once the outbound queue has submitted it; the
+   * transaction manager then confirms it in the background and resends with a
+   * fresh blockhash if it expires.
+   */
+  private async writeTrackedRow(
+    tableSeed: Uint8Array,
+    rowJson: string,
+    meta: Omit<TransactionSubmission, "send"> & { identity: string }
+  ): Promise<IQTransactionRecord> {
+    if (!this.outboundQueue) {
+      throw new Error("IQ service not initialized");
+    }
+
+    const now = Date.now();
+    return this.outboundQueue.enqueue({
+      id: nanoid(),
+      kind: meta.kind,
+      chatroom: meta.chatroom,
+      table: meta.table,
+      messageId: meta.messageId,
+      identity: meta.identity,
+      tableSeed: Buffer.from(tableSeed).toString("hex"),
+      rowJson,
+      enqueuedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    });
+  }
+
+  /**
+   * Submit a queued write to the chain through the transaction manager
+   */
+  private async submitQueuedWrite(item: IQOutboundItem): Promise<IQTransactionRecord> {
+    const { connection, dbRootId, txManager } = this;
+    if (!connection || !this.signer || !dbRootId || !txManager) {
+      throw new Error("IQ service not initialized");
+    }
+    // Items queued before identities existed are signed by the default identity
+    const signer = item.identity ? this.identities.get(item.identity.toLowerCase())?.signer : this.signer;
+    if (!signer) throw new IQIdentityNotFoundError(item.identity!);
+
+    const tableSeed = Buffer.from(item.tableSeed, "hex");
+    const write: SdkWrite<string> = (conn, walletSigner) =>
+      iqlabs.writer.writeRow(conn, walletSigner, dbRootId, tableSeed, item.rowJson, true);
+
+    // A write whose simulation fails would fail on-chain too, after paying its fee
+    if (this.settings.simulateWrites) {
+      const estimate = await simulateWrite(connection, signer.publicKey, write);
+      if (!estimate.success) throw new IQSimulationFailedError(item.kind, estimate.error ?? "unknown error");
+    }
+
+    return txManager.submit({
+      kind: item.kind,
+      messageId: item.messageId,
+      chatroom: item.chatroom,
+      table: item.table,
+      send: () => write(connection, signer),
+    });
+  }
+
+  private async startOutboundQueue(): Promise<void> {
+    this.outboundQueue = new OutboundQueue({
+      perChatroomPerMinute: this.settings.rateLimitPerChatroom,
+      globalPerMinute: this.settings.rateLimitGlobal,
+      maxAttempts: QUEUE_DEFAULTS.maxAttempts,
+      baseBackoffMs: QUEUE_DEFAULTS.baseBackoffMs,
+      write: (item) => this.submitQueuedWrite(item),
+      persist: async (items) => {
+        await this.runtime.setCache(CACHE_KEYS.outboundQueue, items);
+      },
+      logger: this.runtime.logger,
+    });
+
+    try {
+      const saved = await this.runtime.getCache<IQOutboundItem[]>(CACHE_KEYS.outboundQueue);
+      this.outboundQueue.restore(saved ?? []);
+    } catch (error) {
+      this.runtime.logger.debug(`Could not restore outbound queue: ${error}`);
+    }
+  }
+
+  getOutboundQueueDepth(): number {
+    return this.outboundQueue?.getDepth() ?? 0;
+  }
+
+  getPendingOutbound(): IQOutboundItem[] {
+    return this.outboundQueue?.getPending() ?? [];
+  }
+
+  private handleTransactionSettled(record: IQTransactionRecord): void {
+    const event = record.status === "confirmed" ? IQEventTypes.TX_CONFIRMED : IQEventTypes.TX_FAILED;
+    if (record.status === "failed") {
+      this.runtime.logger.error(`Transaction ${record.signature} failed: ${record.error}`);
+    } else {
+      this.runtime.logger.debug(`Transaction ${record.signature} confirmed`);
+    }
+    this.runtime.emitEvent(event as string, { transaction: record });
+    // Failed transactions that landed still paid their fee
+    void this.recordSpend(record.signature, record.kind);
+  }
+
+  getTransactionStatus(signature: string): IQTransactionRecord | undefined {
+    return this.txManager?.getBySignature(signature);
+  }
+
+  getMessageTransactions(messageId: string): IQTransactionRecord[] {
+    return this.txManager?.getByMessageId(messageId) ?? [];
+  }
+
+  // ==================== MEDIA ====================
+
+  /**
+   * Inscribe an attachment through the IQLabs SDK and return its transaction signature
+   */
+  private async inscribeAttachment(attachment: IQAttachment, signer: Signer): Promise<string> {
+    if (!this.connection) {
+      throw new Error("IQ service not initialized");
+    }
+
+    const { data, filename, mimeType } = await loadAttachment(attachment, {
+      maxBytes: MESSAGE_LIMITS.maxAttachmentBytes,
+      attachmentsDir: this.settings.attachmentsDir,
+    });
+
+    const txSig = await iqlabs.writer.codeIn(
+      { connection: this.connection, signer },
+      data.toString("base64"),
+      filename,
+      0,
+      mimeType ?? ""
+    );
+    this.runtime.logger.debug(`Inscribed attachment ${filename ?? "(unnamed)"}: ${txSig}`);
+    void this.recordSpend(txSig, "attachment");
+    return txSig;
+  }
+
+  /**
+   * Resolve a media_tx inscription into an Eliza media attachment (data URL)
+   */
+  private async resolveMedia(mediaTx: string): Promise<Media | undefined> {
+    const cached = this.mediaCache.get(mediaTx);
+    if (cached) return cached;
+
+    try {
+      const { metadata, data } = await iqlabs.reader.readCodeIn(mediaTx);
+      if (!data) return undefined;
+
+      const { filename, filetype } = parseInscriptionMetadata(metadata);
+      const mimeType = filetype || "application/octet-stream";
+      const media: Media = {
+        id: mediaTx,
+        url: `data:${mimeType};base64,${data}`,
+        title: filename,
+        source: "iq",
+        contentType: contentTypeForMime(mimeType),
+      };
+      this.mediaCache.set(mediaTx, media);
+      return media;
+    } catch (error) {
+      this.runtime.logger.debug(`Could not resolve media ${mediaTx}: ${error}`);
+      return undefined;
+    }
+  }
+
   // ==================== INTERNAL ====================
 
   private async handleSendMessage(runtime: IAgentRuntime, target: TargetInfo, content: Content): Promise<void> {
-    if (content.text) {
-      await this.sendMessage(content.text, target.channelId ?? undefined);
+    if (content.text || content.attachments?.length) {
+      // Record which on-chain message the agent is answering
+      const replyTo = content.inReplyTo ? this.messageIdsByUuid.get(content.inReplyTo) : undefined;
+      const attachments = content.attachments?.map(mediaToAttachment);
+      // channelId may be a chatroom or a wallet address; replies without one go back to the room's chatroom or DM
+      const channel = target.channelId ?? (target.roomId ? this.roomTargets.get(target.roomId) : undefined);
+      await this.sendMessage(content.text ?? "", channel, { replyTo, attachments });
     }
   }
 
-  private async trackTokenCall(message: string): Promise<void> {
-    if (!this.settings.pnlApiUrl || !this.keypair) return;
+  private async trackTokenCall(message: string, wallet: string): Promise<void> {
+    if (!this.settings.pnlApiUrl) return;
     try {
       await fetch(`${this.settings.pnlApiUrl}/ingest`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userWallet: this.keypair.publicKey.toBase58(), message }),
+        body: JSON.stringify({ userWallet: wallet, message }),
       });
     } catch { /* ignore */ }
   }
 
-  // ==================== MESSAGE POLLING ====================
+  // ==================== READ CURSORS ====================
 
-  private startMessagePolling(): void {
-    const poll = async () => {
-      for (const [_key, chatroom] of this.chatrooms) {
-        try {
-          const messages = await this.readMessages(20, chatroom.name);
-          for (const msg of messages) {
-            if (this.seenMessages.has(msg.id)) continue;
-            if (msg.wallet === this.getWalletAddress()) continue;
+  /**
+   * Get the read cursor for a chatroom, loading it from the runtime cache on first access.
+   */
+  private async getReadCursor(chatroomName: string): Promise<IQReadCursor | null> {
+    const key = chatroomName.toLowerCase();
+    if (this.readCursors.has(key)) return this.readCursors.get(key) ?? null;
 
-            this.seenMessages.add(msg.id);
+    let cursor: IQReadCursor | null = null;
+    try {
+      cursor = (await this.runtime.getCache<IQReadCursor>(`${CACHE_KEYS.readCursor}${key}`)) ?? null;
+    } catch (error) {
+      this.runtime.logger.debug(`Could not load read cursor for ${chatroomName}: ${error}`);
+    }
+    // A cursor saved ahead of the clock would hide every message until then
+    if (cursor && Date.parse(cursor.lastTimestamp) > Date.now()) {
+      cursor = { ...cursor, lastTimestamp: new Date().toISOString() };
+    }
+    this.readCursors.set(key, cursor);
+    return cursor;
+  }
 
-            this.runtime.emitEvent(IQEventTypes.MESSAGE_RECEIVED as string, {
-              message: msg,
-              chatroom: chatroom.name,
-            });
+  /**
+   * A message's time for ordering and the read cursor. Timestamps are chosen by the
+   * sender, so one in the future counts as the time the message was first read;
+   * otherwise a single future-dated row would push the cursor past every real message.
+   */
+  private messageTime(msg: IQMessage): number {
+    const claimed = Date.parse(msg.timestamp) || 0;
+    const firstRead = this.futureDatedAt.get(msg.id);
+    if (firstRead !== undefined) return Math.min(claimed, firstRead);
+
+    const now = Date.now();
+    if (claimed <= now) return claimed;
+    this.futureDatedAt.set(msg.id, now);
+    if (this.futureDatedAt.size > MESSAGE_LIMITS.maxFutureDated) {
+      const [oldest] = this.futureDatedAt.keys();
+      this.futureDatedAt.delete(oldest);
+    }
+    return now;
+  }
 
-            await this.processIncomingMessage(msg, chatroom.name);
-          }
-        } catch (error) {
-          this.runtime.logger.debug(`Message polling error for ${chatroom.name}: ${error}`);
+  /**
+   * Move a chatroom's read cursor forward and persist it. Never moves backwards.
+   */
+  private async advanceReadCursor(chatroomName: string, msg: IQMessage): Promise<void> {
+    const key = chatroomName.toLowerCase();
+    const current = this.readCursors.get(key);
+    if (current && Date.parse(current.lastTimestamp) > this.messageTime(msg)) return;
+
+    const cursor: IQReadCursor = {
+      lastMessageId: msg.id,
+      lastTxSig: msg.tx_sig,
+      lastTimestamp: new Date(this.messageTime(msg)).toISOString(),
+    };
+    this.readCursors.set(key, cursor);
+
+    try {
+      await this.runtime.setCache(`${CACHE_KEYS.readCursor}${key}`, cursor);
+    } catch (error) {
+      this.runtime.logger.debug(`Could not persist read cursor for ${chatroomName}: ${error}`);
+    }
+  }
+
+  /**
+   * Order a polled batch oldest-first and drop everything at or before the read cursor.
+   * On first join (no cursor) only the last `backlogReplay` messages are kept and the
+   * cursor is moved past the rest, so they are never replayed.
+   */
+  private async selectUnprocessed(messages: IQMessage[], chatroomName: string): Promise<IQMessage[]> {
+    const sorted = [...messages].sort((a, b) => this.messageTime(a) - this.messageTime(b));
+    const cursor = await this.getReadCursor(chatroomName);
+
+    if (!cursor) {
+      const replay = sorted.slice(Math.max(0, sorted.length - this.settings.backlogReplay));
+      const skipped = sorted.slice(0, sorted.length - replay.length);
+      if (skipped.length > 0) {
+        await this.advanceReadCursor(chatroomName, skipped[skipped.length - 1]);
+      } else if (replay.length === 0) {
+        // Empty room: start the cursor now so the first real message is not treated as backlog
+        await this.advanceReadCursor(chatroomName, {
+          id: "",
+          agent: "",
+          wallet: "",
+          content: "",
+          timestamp: new Date().toISOString(),
+        });
+      }
+      return replay;
+    }
+
+    const cursorIndex = sorted.findIndex(
+      (m) => m.id === cursor.lastMessageId || (!!cursor.lastTxSig && m.tx_sig === cursor.lastTxSig)
+    );
+    if (cursorIndex >= 0) return sorted.slice(cursorIndex + 1);
+
+    const cursorTime = Date.parse(cursor.lastTimestamp) || 0;
+    return sorted.filter((m) => this.messageTime(m) > cursorTime);
+  }
+
+  // ==================== MESSAGE SUBSCRIPTIONS ====================
+
+  private startSubscriptions(): void {
+    this.subscriptions = new ChatroomSubscriptions({
+      mode: this.settings.subscriptionMode,
+      connection: this.connection,
+      minIntervalMs: this.settings.pollMinIntervalMs,
+      maxIntervalMs: this.settings.pollMaxIntervalMs,
+      fetchNew: (chatroomName) => this.fetchNewMessages(chatroomName),
+      logger: this.runtime.logger,
+    });
+
+    for (const chatroom of this.chatrooms.values()) {
+      this.subscriptions.subscribe(chatroom);
+    }
+    this.runtime.logger.info(`Chatroom subscriptions started (${this.settings.subscriptionMode} mode)`);
+  }
+
+  /**
+   * Incoming-message pipeline shared by all subscription modes.
+   * Reads the latest batch, emits and processes anything past the read cursor,
+   * and returns how many new messages were found.
+   */
+  private async fetchNewMessages(chatroomName: string): Promise<number> {
+    const messages = await this.readMessages(MESSAGE_LIMITS.pollBatchSize, chatroomName);
+    let found = 0;
+
+    for (const msg of await this.selectUnprocessed(messages, chatroomName)) {
+      // Hold back at an incomplete multi-part message until its parts arrive (or the wait expires)
+      if (msg.partial && Date.now() - this.messageTime(msg) < MESSAGE_LIMITS.partWaitMs) break;
+
+      if (this.seenMessages.has(msg.id)) continue;
+      this.seenMessages.add(msg.id);
+      found++;
+
+      // Messages from any of the agent's own identities are never processed
+      if (!this.isOwnWallet(msg.wallet)) {
+        const verification = await this.verifySender(msg, chatroomName);
+        // Ciphertext the agent can't read is left out of its context
+        const plaintext = msg.envelope ? await this.decryptMessage(msg) : undefined;
+
+        if (msg.envelope && plaintext === undefined) {
+          this.runtime.logger.debug(`Skipped encrypted message ${msg.id} in ${chatroomName}: not readable by this wallet`);
+        } else if (verification.verified || this.settings.unverifiedPolicy !== "drop") {
+          const incoming = plaintext !== undefined ? { ...msg, content: plaintext, decrypted: true } : msg;
+          this.runtime.emitEvent(IQEventTypes.MESSAGE_RECEIVED as string, {
+            message: incoming,
+            chatroom: chatroomName,
+            verified: verification.verified,
+          });
+
+          await this.processIncomingMessage(incoming, chatroomName, verification);
+        } else {
+          this.runtime.logger.debug(
+            `Dropped unverified message ${msg.id} in ${chatroomName} claiming ${msg.wallet}: ${verification.reason}`
+          );
         }
       }
-      setTimeout(poll, 5000);
-    };
 
-    poll();
+      await this.advanceReadCursor(chatroomName, msg);
+    }
+
+    return found;
   }
 
-  private async processIncomingMessage(msg: IQMessage, chatroomName: string): Promise<void> {
-    const entityId = createUniqueUuid(this.runtime, msg.wallet);
+  private async verifySender(msg: IQMessage, chatroomName: string): Promise<IQVerificationResult> {
+    if (!this.verifier) return { verified: false, method: "none", reason: "Verifier not initialized" };
+    // Signatures are bound to the table the row was read from, not the row's own chatroom field
+    const chatroom = this.chatrooms.get(chatroomName.toLowerCase());
+    return this.verifier.verify(msg, tableNameFor(chatroom?.name ?? chatroomName), chatroom?.tablePda);
+  }
+
+  private async processIncomingMessage(
+    msg: IQMessage,
+    chatroomName: string,
+    verification: IQVerificationResult
+  ): Promise<void> {
+    // Unverified senders get their own entity so they can't borrow a real wallet's identity
+    const entityId = createUniqueUuid(
+      this.runtime,
+      verification.verified ? msg.wallet : `unverified:${msg.wallet}`
+    );
     const roomId = createUniqueUuid(this.runtime, `iq-${chatroomName}`);
+    const dmWith = this.chatrooms.get(chatroomName.toLowerCase())?.dmWith;
+    this.roomTargets.set(roomId, chatroomName);
 
     await this.runtime.ensureConnection(entityId, roomId, msg.agent, msg.agent, "iq");
 
+    const memoryId = stringToUuid(msg.id) as UUID;
+    this.messageIdsByUuid.set(memoryId, msg.id);
+
+    const media = msg.media_tx ? await this.resolveMedia(msg.media_tx) : undefined;
+
     const memory: Memory = {
-      id: stringToUuid(msg.id) as UUID,
+      id: memoryId,
       entityId,
       roomId,
       agentId: this.runtime.agentId,
       content: {
         text: msg.content,
         source: "iq",
-        channelType: ChannelType.GROUP,
-        metadata: { chatroom: chatroomName },
+        channelType: dmWith ? ChannelType.DM : ChannelType.GROUP,
+        // Replies point at the referenced message's memory UUID
+        ...(msg.reply_to ? { inReplyTo: stringToUuid(msg.reply_to) as UUID } : {}),
+        ...(media ? { attachments: [media] } : {}),
+        metadata: {
+          chatroom: chatroomName,
+          iqMessageId: msg.id,
+          wallet: msg.wallet,
+          verified: verification.verified,
+          verificationMethod: verification.method,
+          ...(dmWith ? { dmWith } : {}),
+          ...(msg.decrypted ? { encrypted: true } : {}),
+        },
       },
       createdAt: new Date(msg.timestamp).getTime(),
     };
 
+    // Quarantined messages are kept for context but never answered
+    if (!verification.verified && this.settings.unverifiedPolicy === "quarantine") {
+      await this.runtime.createMemory(memory, "messages");
+      return;
+    }
+
+    // Messages the engagement policy filters out are still kept for context
+    const decision = this.engagement.evaluate(
+      msg,
+      chatroomName,
+      {
+        name: this.findIdentity(chatroomName)?.displayName ?? this.settings.agentName,
+        wallets: Array.from(this.identities.values()).map((i) => i.wallet),
+      },
+      // A direct message is always addressed to the agent
+      !!dmWith || (!!msg.reply_to && this.sentMessageIds.has(msg.reply_to))
+    );
+    if (!decision.respond) {
+      memory.content.metadata = {
+        ...(memory.content.metadata as Record<string, unknown>),
+        engagementFilter: decision.reason,
+      };
+      await this.runtime.createMemory(memory, "messages");
+      this.runtime.logger.debug(`Not responding to ${msg.id} in ${chatroomName}: ${decision.reason}`);
+      return;
+    }
+
     await this.runtime.messageService.handleMessage(this.runtime, memory);
   }
 }
@@ -0,0 +1,217 @@
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { createPrivateKey, createPublicKey, sign, verify } from "crypto";
+import * as fs from "fs";
+import bs58 from "bs58";
+import iqlabs from "@iqlabs-official/solana-sdk";
+import { SIGNER_DEFAULTS } from "./constants";
+import { ed25519SecretToX25519 } from "./encryption";
+
+/** DER prefixes wrapping raw ed25519 keys for Node's crypto */
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/** Keystore file format version */
+const KEYSTORE_VERSION = 1;
+
+/**
+ * Signs transactions and messages for one wallet. Every write path goes through a
+ * Signer, so the private key can live outside the process.
+ */
+export interface Signer {
+  readonly publicKey: PublicKey;
+  signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T>;
+  signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]>;
+  /** Raw ed25519 signature over arbitrary bytes */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+  /** X25519 private key for opening encrypted messages; absent when the key never leaves the signer */
+  getEncryptionKey?(): Promise<Uint8Array>;
+}
+
+/**
+ * Check an ed25519 signature by a public key
+ */
+export function verifyEd25519(publicKey: PublicKey, message: Uint8Array, signature: Uint8Array): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+      format: "der",
+      type: "spki",
+    });
+    return verify(null, message, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Bytes a wallet signs for a transaction
+ */
+function transactionMessage(tx: Transaction | VersionedTransaction): Uint8Array {
+  return tx instanceof VersionedTransaction ? tx.message.serialize() : tx.serializeMessage();
+}
+
+/**
+ * KeypairSigner - signs with a keypair held in memory
+ */
+export class KeypairSigner implements Signer {
+  constructor(private keypair: Keypair) {}
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
+    if (tx instanceof VersionedTransaction) {
+      tx.sign([this.keypair]);
+    } else {
+      tx.partialSign(this.keypair);
+    }
+    return tx;
+  }
+
+  async signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]> {
+    for (const tx of txs) await this.signTransaction(tx);
+    return txs;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const key = createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(this.keypair.secretKey.slice(0, 32))]),
+      format: "der",
+      type: "pkcs8",
+    });
+    return sign(null, message, key);
+  }
+
+  async getEncryptionKey(): Promise<Uint8Array> {
+    return ed25519SecretToX25519(this.keypair.secretKey);
+  }
+}
+
+/**
+ * Passphrase-encrypted keystore file contents
+ */
+interface KeystoreFile {
+  version: number;
+  publicKey: string;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * KeystoreSigner - a keypair kept in a passphrase-encrypted file
+ *
+ * The secret key is encrypted with the IQLabs SDK's password scheme (PBKDF2-SHA256 →
+ * AES-256-GCM) and only decrypted in memory when the keystore is opened.
+ */
+export class KeystoreSigner extends KeypairSigner {
+  /**
+   * Open a keystore file; throws if the passphrase is wrong or the file doesn't match its public key
+   */
+  static async open(path: string, passphrase: string): Promise<KeystoreSigner> {
+    const file = JSON.parse(fs.readFileSync(path, "utf8")) as KeystoreFile;
+    if (file.version !== KEYSTORE_VERSION) throw new Error(`Unsupported keystore version ${file.version}`);
+
+    let secretKey: Uint8Array;
+    try {
+      secretKey = await iqlabs.crypto.passwordDecrypt(passphrase, file.salt, file.iv, file.ciphertext);
+    } catch {
+      throw new Error(`Could not decrypt keystore ${path}: wrong passphrase or corrupted file`);
+    }
+
+    const keypair = Keypair.fromSecretKey(secretKey);
+    if (keypair.publicKey.toBase58() !== file.publicKey) {
+      throw new Error(`Keystore ${path} does not match its public key ${file.publicKey}`);
+    }
+    return new KeystoreSigner(keypair);
+  }
+
+  /**
+   * Write a keypair to a new keystore file, readable only by the owner
+   */
+  static async create(path: string, keypair: Keypair, passphrase: string): Promise<void> {
+    const encrypted = await iqlabs.crypto.passwordEncrypt(passphrase, keypair.secretKey);
+    const file: KeystoreFile = {
+      version: KEYSTORE_VERSION,
+      publicKey: keypair.publicKey.toBase58(),
+      ...encrypted,
+    };
+    fs.writeFileSync(path, JSON.stringify(file, null, 2), { mode: 0o600 });
+  }
+}
+
+/**
+ * Options for a remote signer
+ */
+export interface RemoteSignerOptions {
+  /** Signing endpoint base URL */
+  url: string;
+  /** Wallet the endpoint signs for */
+  publicKey: string;
+  /** Bearer token sent with each request */
+  authToken?: string;
+  /** Request timeout (ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * RemoteSigner - signs through an HTTP endpoint that holds the key
+ *
+ * `POST {url}/sign-transaction` receives `{ publicKey, transaction }` with the base64
+ * serialized, unsigned transaction; `POST {url}/sign-message` receives
+ * `{ publicKey, message }` with base64 bytes. Both return `{ signature }` in base58.
+ * Every signature is checked against the public key before it is used. The key never
+ * reaches this process, so encrypted messages can't be opened with a remote signer.
+ */
+export class RemoteSigner implements Signer {
+  readonly publicKey: PublicKey;
+
+  constructor(private options: RemoteSignerOptions) {
+    this.publicKey = new PublicKey(options.publicKey);
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(tx: T): Promise<T> {
+    const serialized =
+      tx instanceof VersionedTransaction
+        ? tx.serialize()
+        : tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+    const signature = await this.request("sign-transaction", { transaction: Buffer.from(serialized).toString("base64") });
+
+    if (!verifyEd25519(this.publicKey, transactionMessage(tx), signature)) {
+      throw new Error("Remote signer returned an invalid transaction signature");
+    }
+    tx.addSignature(this.publicKey, Buffer.from(signature));
+    return tx;
+  }
+
+  async signAllTransactions<T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]> {
+    for (const tx of txs) await this.signTransaction(tx);
+    return txs;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const signature = await this.request("sign-message", { message: Buffer.from(message).toString("base64") });
+    if (!verifyEd25519(this.publicKey, message, signature)) {
+      throw new Error("Remote signer returned an invalid message signature");
+    }
+    return signature;
+  }
+
+  private async request(path: string, body: Record<string, string>): Promise<Uint8Array> {
+    const response = await fetch(`${this.options.url.replace(/\/$/, "")}/${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.authToken ? { Authorization: `Bearer ${this.options.authToken}` } : {}),
+      },
+      body: JSON.stringify({ publicKey: this.options.publicKey, ...body }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? SIGNER_DEFAULTS.remoteTimeoutMs),
+    });
+    if (!response.ok) throw new Error(`Remote signer responded ${response.status}`);
+
+    const data = (await response.json()) as { signature?: string };
+    if (!data.signature) throw new Error("Remote signer returned no signature");
+    return bs58.decode(data.signature);
+  }
+}
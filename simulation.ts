@@ -0,0 +1,148 @@
+import {
+  type Connection,
+  LAMPORTS_PER_SOL,
+  type PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { randomBytes } from "crypto";
+import bs58 from "bs58";
+import iqlabs from "@iqlabs-official/solana-sdk";
+import type { IQCostEstimate } from "./types";
+
+/** A signer the SDK accepts; the dry run stands in for the real one */
+type DryRunSigner = Parameters<typeof iqlabs.writer.writeRow>[1];
+
+/** An SDK write to run without sending, e.g. `(connection, signer) => writeRow(connection, signer, ...)` */
+export type SdkWrite<T = unknown> = (connection: Connection, signer: DryRunSigner) => Promise<T>;
+
+const USER_INITIALIZE = Buffer.from(
+  iqlabs.contract.IQ_IDL.instructions.find((ix) => ix.name === "user_initialize")?.discriminator ?? []
+);
+
+/** Stops a dry run at the wallet's one-time IQ account setup */
+class AccountSetupReached extends Error {}
+
+function isAccountSetup(tx: Transaction): boolean {
+  return tx.instructions.some(
+    (ix) =>
+      ix.programId.equals(iqlabs.contract.PROGRAM_ID) &&
+      USER_INITIALIZE.length > 0 &&
+      ix.data.subarray(0, 8).equals(USER_INITIALIZE)
+  );
+}
+
+/**
+ * Run an SDK write without sending anything and return the transactions it would send,
+ * in order. Sends are captured and reported as landed with a placeholder signature, so
+ * writes that upload long content in several transactions run to the end. No key is
+ * asked to sign. The run stops before the wallet's IQ account setup, since the SDK
+ * would remember the account as created.
+ */
+async function captureWrite(
+  connection: Connection,
+  payer: PublicKey,
+  write: SdkWrite
+): Promise<{ transactions: Transaction[]; accountSetup: boolean }> {
+  const transactions: Transaction[] = [];
+
+  const signer = {
+    publicKey: payer,
+    signTransaction: async <T extends Transaction | VersionedTransaction>(tx: T): Promise<T> => {
+      if (!(tx instanceof Transaction)) throw new Error("Dry runs only support legacy transactions");
+      transactions.push(tx);
+      // Unsigned: the stand-in skips the signature checks serialize() would make
+      return { serialize: () => tx.serialize({ requireAllSignatures: false, verifySignatures: false }) } as unknown as T;
+    },
+    signAllTransactions: async <T extends Transaction | VersionedTransaction>(txs: T[]): Promise<T[]> =>
+      Promise.all(txs.map((tx) => signer.signTransaction(tx))),
+  };
+
+  const dryConnection = new Proxy(connection, {
+    get(target, prop, receiver) {
+      if (prop === "sendRawTransaction") {
+        return async () => {
+          if (isAccountSetup(transactions[transactions.length - 1])) throw new AccountSetupReached();
+          return bs58.encode(randomBytes(64));
+        };
+      }
+      if (prop === "confirmTransaction") {
+        return async () => ({ context: { slot: 0 }, value: { err: null } });
+      }
+      const value = Reflect.get(target, prop, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+
+  try {
+    await write(dryConnection, signer);
+    return { transactions, accountSetup: false };
+  } catch (error) {
+    if (error instanceof AccountSetupReached) return { transactions, accountSetup: true };
+    throw error;
+  }
+}
+
+/**
+ * Build an SDK write without sending it, simulate each of its transactions, and report
+ * what it would cost: the network fee plus the lamports moved into other accounts (rent
+ * for accounts it creates or grows, and any program write fee). Simulation stops at the
+ * first transaction that fails. Errors building the write (e.g. a missing table) are thrown.
+ */
+export async function simulateWrite(connection: Connection, payer: PublicKey, write: SdkWrite): Promise<IQCostEstimate> {
+  const { transactions, accountSetup } = await captureWrite(connection, payer, write);
+  const estimate: IQCostEstimate = {
+    fee: 0,
+    rent: 0,
+    total: 0,
+    transactions: transactions.length,
+    computeUnits: 0,
+    success: true,
+    ...(accountSetup ? { accountSetup } : {}),
+  };
+
+  let fee = 0;
+  let rent = 0;
+  for (const tx of transactions) {
+    const message = tx.compileMessage();
+    const writable = message.accountKeys.filter((key, i) => i > 0 && message.isAccountWritable(i));
+    const [{ value: txFee }, before] = await Promise.all([
+      connection.getFeeForMessage(message),
+      connection.getMultipleAccountsInfo(writable),
+    ]);
+    const { value: result } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: { encoding: "base64", addresses: writable.map((key) => key.toBase58()) },
+    });
+
+    fee += txFee ?? 0;
+    estimate.computeUnits += result.unitsConsumed ?? 0;
+    if (result.err) {
+      const reason = result.logs?.filter((line) => /error/i.test(line)).pop();
+      estimate.success = false;
+      estimate.error = `${JSON.stringify(result.err)}${reason ? ` (${reason})` : ""}`;
+      break;
+    }
+    result.accounts?.forEach((account, i) => {
+      rent += Math.max(0, (account?.lamports ?? 0) - (before[i]?.lamports ?? 0));
+    });
+  }
+
+  estimate.fee = fee / LAMPORTS_PER_SOL;
+  estimate.rent = rent / LAMPORTS_PER_SOL;
+  estimate.total = (fee + rent) / LAMPORTS_PER_SOL;
+  return estimate;
+}
+
+/**
+ * One-line cost summary, e.g. "~0.000015 SOL (fee 0.000015 SOL, rent 0 SOL) over 3 transactions"
+ */
+export function formatCostEstimate(estimate: IQCostEstimate): string {
+  const sol = (n: number) => `${Number(n.toFixed(9))} SOL`;
+  const over = estimate.transactions === 1 ? "" : ` over ${estimate.transactions} transactions`;
+  const cost = `~${sol(estimate.total)} (fee ${sol(estimate.fee)}, rent ${sol(estimate.rent)})${over}`;
+  if (!estimate.success) return `${cost} - simulation failed: ${estimate.error}`;
+  if (estimate.accountSetup) return `${cost} for the wallet's one-time IQ account setup; the write itself comes after`;
+  return cost;
+}
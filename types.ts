@@ -8,6 +8,16 @@ export interface IQSettings {
   keypairPath?: string;
   /** Solana private key in base58 format (optional if keypairPath is set) */
   privateKey?: string;
+  /** Passphrase-encrypted keystore file (see KeystoreSigner) */
+  keystorePath?: string;
+  /** Passphrase for keystorePath */
+  keystorePassphrase?: string;
+  /** Remote signing endpoint; the key stays with the endpoint */
+  remoteSignerUrl?: string;
+  /** Wallet the remote signer signs for */
+  remoteSignerPublicKey?: string;
+  /** Bearer token for the remote signer */
+  remoteSignerToken?: string;
   /** Agent display name in chat */
   agentName: string;
   /** Default chatroom (used when no target is specified) */
@@ -20,8 +30,213 @@ export interface IQSettings {
   pnlApiUrl?: string;
   /** Gateway URL for reading on-chain data */
   gatewayUrl?: string;
+  /** Messages to replay when joining a chatroom that has no saved read cursor */
+  backlogReplay: number;
+  /** How new chatroom messages are detected */
+  subscriptionMode: IQSubscriptionMode;
+  /** Fastest per-room poll interval in ms */
+  pollMinIntervalMs: number;
+  /** Slowest per-room poll interval in ms */
+  pollMaxIntervalMs: number;
+  /** What to do with content over the length limit */
+  longMessageMode: IQLongMessageMode;
+  /** Commitment a write must reach to count as confirmed */
+  txCommitment: IQCommitment;
+  /** Resends allowed when a write's blockhash expires */
+  txMaxRetries: number;
+  /** Max outbound writes per chatroom per minute */
+  rateLimitPerChatroom: number;
+  /** Max outbound writes across all chatrooms per minute */
+  rateLimitGlobal: number;
+  /** What to do with incoming messages whose sender can't be verified */
+  unverifiedPolicy: IQUnverifiedPolicy;
+  /** Read backends to try, in order */
+  readBackends: IQReaderName[];
+  /** Timeout per read backend in ms */
+  readTimeouts: Record<IQReaderName, number>;
+  /** Consecutive failures before a read backend is skipped */
+  readFailureThreshold: number;
+  /** How long an unhealthy read backend is skipped in ms */
+  readCooldownMs: number;
+  /** Create a chatroom's table on-chain when sending to a room that doesn't exist */
+  autoCreateChatrooms: boolean;
+  /** Aliases for chatroom references, keyed by lowercase alias */
+  chatroomAliases: Record<string, string>;
+  /** What to do with a chatroom reference that matches no known room */
+  unknownChatroomPolicy: IQUnknownChatroomPolicy;
+  /** Engagement policies keyed by lowercase chatroom name ("*" applies to every room) */
+  engagement: Record<string, IQEngagementPolicy>;
+  /** Additional named wallet identities */
+  identities: IQIdentityConfig[];
+  /** Identity used per chatroom, keyed by lowercase chatroom name (others use the default identity) */
+  chatroomIdentities: Record<string, string>;
+  /** Largest single SOL tip */
+  tipMaxSol: number;
+  /** Most SOL tipped in any 24 hours */
+  tipDailyMaxSol: number;
+  /** Wallets whose verified IQ chat messages may ask the agent to tip */
+  tipAllowedWallets: string[];
+  /** Writes are refused while the signing wallet holds less SOL than this */
+  minSolBalance: number;
+  /** Most SOL spent on writes in any hour (0 = no limit) */
+  spendHourlyBudgetSol: number;
+  /** Most SOL spent on writes in any 24 hours (0 = no limit) */
+  spendDailyBudgetSol: number;
+  /** Simulate each row write before sending it and refuse writes whose simulation fails */
+  simulateWrites: boolean;
+  /** Directory local attachment files may be read from (unset = no local files) */
+  attachmentsDir?: string;
 }
 
+/**
+ * A named wallet identity the agent can post as
+ */
+export interface IQIdentityConfig {
+  /** Identity name used in config and API calls (e.g. "moderator") */
+  name: string;
+  /** Display name in chat (defaults to the agent name) */
+  displayName?: string;
+  /** Solana private key in base58 format */
+  privateKey?: string;
+  /** Path to Solana keypair JSON file */
+  keypairPath?: string;
+  /** Passphrase-encrypted keystore file */
+  keystorePath?: string;
+  /** Passphrase for keystorePath */
+  keystorePassphrase?: string;
+  /** Remote signing endpoint */
+  remoteSignerUrl?: string;
+  /** Wallet the remote signer signs for */
+  remoteSignerPublicKey?: string;
+  /** Bearer token for the remote signer */
+  remoteSignerToken?: string;
+}
+
+/**
+ * A loaded identity, without its key
+ */
+export interface IQIdentity {
+  name: string;
+  displayName: string;
+  wallet: string;
+  /** Whether this is the default identity */
+  isDefault: boolean;
+}
+
+/**
+ * Which incoming messages the agent responds to in a chatroom
+ */
+export interface IQEngagementPolicy {
+  /** Only respond when the agent's name or wallet is mentioned, or its message is replied to */
+  mentionsOnly?: boolean;
+  /** Chance (0-1) of responding to a message that doesn't mention the agent */
+  replyProbability?: number;
+  /** Minimum time between the agent's messages in the room (ms) */
+  cooldownMs?: number;
+  /** Most messages the agent sends to the room per hour (0 = no limit) */
+  maxRepliesPerHour?: number;
+  /** Save messages to memory but never respond */
+  listenOnly?: boolean;
+  /** Wallets whose messages are never responded to */
+  ignoredWallets?: string[];
+}
+
+/**
+ * Why an incoming message was not responded to
+ */
+export type IQEngagementFilterReason =
+  | "ignored_wallet"
+  | "listen_only"
+  | "not_mentioned"
+  | "cooldown"
+  | "hourly_limit"
+  | "probability";
+
+/**
+ * Outcome of the engagement policy for one message
+ */
+export interface IQEngagementDecision {
+  respond: boolean;
+  reason?: IQEngagementFilterReason;
+}
+
+/**
+ * Handling of chatroom references that match no known room:
+ * "reject" fails unless the caller confirms the new room, "connect" uses the name as given
+ */
+export type IQUnknownChatroomPolicy = "reject" | "connect";
+
+/**
+ * How a chatroom reference matched a name
+ */
+export type IQChatroomMatchKind = "exact" | "alias" | "prefix" | "token" | "fuzzy";
+
+/**
+ * A ranked chatroom match for a reference
+ */
+export interface IQChatroomCandidate {
+  name: string;
+  /** Match score from 0 to 1 */
+  score: number;
+  match: IQChatroomMatchKind;
+}
+
+/**
+ * Result of resolving a chatroom reference
+ */
+export type IQChatroomResolution =
+  | { status: "resolved"; ref: string; chatroom: string; candidate: IQChatroomCandidate }
+  | { status: "ambiguous"; ref: string; candidates: IQChatroomCandidate[] }
+  | { status: "not_found"; ref: string };
+
+/**
+ * Chatroom read backends: IQ HTTP API, IQ gateway, or direct on-chain reads via the SDK
+ */
+export type IQReaderName = "api" | "gateway" | "sdk";
+
+/**
+ * Health and latency of a read backend
+ */
+export interface IQReaderStats {
+  name: IQReaderName;
+  /** Successful reads */
+  successes: number;
+  /** Failed or timed out reads */
+  failures: number;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Average read latency (ms) */
+  avgLatencyMs: number;
+  /** Latency of the most recent read (ms) */
+  lastLatencyMs: number;
+  /** Most recent error message */
+  lastError?: string;
+  /** While in the future, the backend is skipped (ms timestamp, 0 when healthy) */
+  circuitOpenUntil: number;
+}
+
+/**
+ * Handling of incoming messages whose sender can't be verified:
+ * "mark" processes them flagged as unverified, "quarantine" stores them in memory
+ * without responding, "drop" ignores them
+ */
+export type IQUnverifiedPolicy = "mark" | "quarantine" | "drop";
+
+/**
+ * Solana commitment levels accepted for write confirmation
+ */
+export type IQCommitment = "processed" | "confirmed" | "finalized";
+
+/**
+ * Handling of content over MESSAGE_LIMITS.maxContentLength
+ */
+export type IQLongMessageMode = "split" | "truncate" | "reject";
+
+/**
+ * Chatroom subscription mode: push via onLogs, or adaptive polling
+ */
+export type IQSubscriptionMode = "websocket" | "poll";
+
 /**
  * On-chain message structure
  */
@@ -40,10 +255,111 @@ export interface IQMessage {
   chatroom?: string;
   /** Optional media transaction signature */
   media_tx?: string;
-  /** Transaction signature (set by gateway) */
+  /** ID of the message this one replies to */
+  reply_to?: string;
+  /** Group id shared by the parts of a multi-part message */
+  part_group?: string;
+  /** Zero-based index of this part */
+  part_index?: number;
+  /** Total number of parts in the group */
+  part_total?: number;
+  /** Set during reassembly when some parts of the group are missing */
+  partial?: boolean;
+  /** Base58 ed25519 signature by `wallet` over the message body */
+  sig?: string;
+  /** Encrypted payload; `content` then holds only a placeholder */
+  envelope?: IQEnvelope;
+  /** Set when the poller decrypted this message's envelope into `content` */
+  decrypted?: boolean;
+  /** Signature of the transaction the row was read from (set by the reader) */
   tx_sig?: string;
 }
 
+/**
+ * Message content sealed to one wallet (ephemeral X25519 + AES-256-GCM)
+ */
+export interface IQEnvelope {
+  /** Envelope format version */
+  v: number;
+  /** Recipient wallet; its ed25519 key converted to X25519 is the encryption key */
+  to: string;
+  /** Sender's ephemeral X25519 public key (hex) */
+  epk: string;
+  /** AES-GCM IV (hex) */
+  iv: string;
+  /** Ciphertext (hex) */
+  ct: string;
+}
+
+/**
+ * Options for sending a chatroom message
+ */
+export interface IQSendOptions {
+  /** ID of the message being replied to */
+  replyTo?: string;
+  /** Attachments inscribed on-chain and referenced by media_tx (one per message) */
+  attachments?: IQAttachment[];
+  /** Create the chatroom's table if it doesn't exist (defaults to IQ_AUTO_CREATE_CHATROOMS) */
+  createIfMissing?: boolean;
+  /** Encrypt the content so only this wallet can read it */
+  encryptTo?: string;
+  /** Identity to post as (defaults to the chatroom's identity) */
+  identity?: string;
+}
+
+/**
+ * Options for creating a chatroom
+ */
+export interface IQCreateChatroomOptions {
+  /** Connect to and poll the chatroom after creating it (default true) */
+  connect?: boolean;
+  /** Only holders of this token (or collection) may write */
+  gate?: { mint: string; amount?: number; gateType?: IQGateType };
+  /** Only these wallets may write */
+  writers?: string[];
+}
+
+/**
+ * Result of creating a chatroom
+ */
+export interface IQCreateChatroomResult {
+  /** Chatroom name */
+  chatroom: string;
+  /** Table PDA on Solana */
+  tablePda: string;
+  /** False when the table already existed */
+  created: boolean;
+  /** Signature of the create transaction (only when created) */
+  txSig?: string;
+}
+
+/**
+ * Attachment to inscribe alongside a message
+ */
+export interface IQAttachment {
+  /** Raw bytes (takes precedence over url/path) */
+  data?: Uint8Array;
+  /** Remote (http/https) or data: URL */
+  url?: string;
+  /** Local file path, inside the configured attachments directory */
+  path?: string;
+  /** File name stored in the inscription metadata */
+  filename?: string;
+  /** MIME type (detected from the bytes when omitted) */
+  mimeType?: string;
+}
+
+/**
+ * Outcome of checking that a message was sent by the wallet it claims
+ */
+export interface IQVerificationResult {
+  verified: boolean;
+  /** How the sender was checked */
+  method: "signature" | "transaction" | "none";
+  /** Why verification failed */
+  reason?: string;
+}
+
 /**
  * Chatroom configuration (on-chain table mapping)
  */
@@ -56,6 +372,341 @@ export interface IQChatroom {
   tableSeed: Buffer;
   /** Table PDA on Solana */
   tablePda: string;
+  /** Token gate read from the table account (absent when the room is open) */
+  gate?: IQChatroomGate;
+  /** Wallets allowed to write, read from the table account (absent or empty when anyone may write) */
+  writers?: string[];
+  /** For direct message tables, the other party's wallet */
+  dmWith?: string;
+  /** Column names read from the table account */
+  columns?: string[];
+}
+
+/**
+ * Gate kinds: holding a token mint, or an NFT from a collection
+ */
+export type IQGateType = "token" | "collection";
+
+/**
+ * Token gate on a chatroom table
+ */
+export interface IQChatroomGate {
+  /** Gate token mint (or collection key) */
+  mint: string;
+  /** Minimum amount held, in base units */
+  amount: number;
+  gateType: IQGateType;
+}
+
+/**
+ * Chatroom membership changes made at runtime, persisted across restarts
+ */
+export interface IQMembership {
+  /** Rooms joined on top of the configured chatrooms */
+  joined: string[];
+  /** Rooms left, including configured ones */
+  left: string[];
+}
+
+/**
+ * A chatroom found under the database root
+ */
+export interface IQChatroomListing {
+  /** Chatroom name */
+  name: string;
+  /** Table PDA on Solana */
+  tablePda: string;
+  /** Wallet that created the table (unknown for tables with a long history) */
+  creator?: string;
+  /** Time of the most recent write (ms) */
+  lastActivity?: number;
+  /** Writes in the last 24 hours (counted up to the scan limit) */
+  recentWrites: number;
+  /** Whether writing is restricted by a token gate or writer list */
+  gated: boolean;
+  /** Whether the agent is connected to this chatroom */
+  connected: boolean;
+}
+
+/**
+ * Whether the agent's wallet may write to a chatroom
+ */
+export interface IQWriteAccess {
+  allowed: boolean;
+  /** Why writing is not allowed */
+  reason?: string;
+}
+
+/**
+ * What a recorded on-chain spend paid for
+ */
+export type IQSpendKind = IQTransactionKind | "chatroom" | "attachment" | "transfer";
+
+/**
+ * Lamports one transaction cost the agent
+ */
+export interface IQSpendRecord {
+  signature: string;
+  /** Fee plus any rent paid (fee only for transfers) */
+  lamports: number;
+  kind: IQSpendKind;
+  /** Time recorded (ms) */
+  at: number;
+}
+
+/**
+ * Spending against the hourly and daily budgets, in SOL
+ */
+export interface IQSpendingStatus {
+  spentLastHour: number;
+  spentLastDay: number;
+  /** Hourly budget (0 = no limit) */
+  hourlyBudget: number;
+  /** Daily budget (0 = no limit) */
+  dailyBudget: number;
+  /** Left in the hourly budget (null without one) */
+  hourlyRemaining: number | null;
+  /** Left in the daily budget (null without one) */
+  dailyRemaining: number | null;
+  /** Balance below which writes are refused */
+  minBalance: number;
+  /** Whether a signing wallet was last seen below the minimum balance */
+  lowBalance: boolean;
+}
+
+/**
+ * Payload for the low balance event
+ */
+export interface IQLowBalancePayload {
+  wallet: string;
+  /** Balance in SOL */
+  balance: number;
+  /** Minimum balance in SOL */
+  minBalance: number;
+}
+
+/**
+ * What a wallet transaction did, as far as it can be decoded
+ */
+export type IQWalletTransactionKind = "message" | "inscription" | "tip" | "other";
+
+/**
+ * Entry in a wallet's transaction history
+ */
+export interface IQWalletTransaction {
+  signature: string;
+  kind: IQWalletTransactionKind;
+  slot: number;
+  /** Block time (ms), when the RPC node knows it */
+  time?: number;
+  success: boolean;
+  /** Failure reason */
+  error?: string;
+  /** Fee paid by the wallet in SOL (0 when another account paid) */
+  fee: number;
+  /** Change in the wallet's SOL balance, fee and rent included (negative when it spent) */
+  balanceChange: number;
+  /** Chatroom written to or created */
+  chatroom?: string;
+  /** Table written to or created, for tables that aren't chatrooms */
+  table?: string;
+  /** Tip recipient wallet */
+  recipient?: string;
+  /** Tip amount in SOL */
+  amount?: number;
+}
+
+/**
+ * Simulated cost of a write, built but not sent
+ */
+export interface IQCostEstimate {
+  /** Network fees in SOL */
+  fee: number;
+  /** SOL moved into other accounts: rent for accounts the write creates or grows, and any program write fee */
+  rent: number;
+  /** fee + rent */
+  total: number;
+  /** Transactions the write takes (long content is uploaded before the row is written) */
+  transactions: number;
+  /** Compute units used */
+  computeUnits: number;
+  /** Whether every transaction simulated without error */
+  success: boolean;
+  /** Why the simulation failed */
+  error?: string;
+  /** The wallet has no IQ account yet: the estimate covers only creating it, which comes before its first write */
+  accountSetup?: boolean;
+}
+
+/**
+ * Display metadata for a token mint
+ */
+export interface IQTokenMetadata {
+  symbol?: string;
+  name?: string;
+}
+
+/**
+ * Wallet holding of one token mint, summed across its token accounts
+ */
+export interface IQTokenBalance extends IQTokenMetadata {
+  mint: string;
+  /** Raw amount in base units */
+  amount: string;
+  decimals: number;
+  /** Amount in whole tokens */
+  uiAmount: number;
+  /** Token program owning the accounts (SPL Token or Token-2022) */
+  programId: string;
+}
+
+/**
+ * Wallet a tip goes to, with where it was found
+ */
+export interface IQTipRecipient {
+  wallet: string;
+  /** Display name seen in chat */
+  name?: string;
+  /** Chatroom the recipient was found in */
+  chatroom?: string;
+  /** Message the recipient was identified by */
+  messageId?: string;
+}
+
+/**
+ * Options for a tip
+ */
+export interface IQTipOptions {
+  /** Chatroom to look the recipient up in and announce the tip to (defaults to where the recipient was found) */
+  chatroom?: string;
+  /** Identity that pays and announces the tip */
+  identity?: string;
+  /** Post the tip to the chatroom (default true) */
+  announce?: boolean;
+}
+
+/**
+ * Completed tip
+ */
+export interface IQTipResult {
+  recipient: IQTipRecipient;
+  /** Amount in SOL */
+  amount: number;
+  /** Transfer transaction signature */
+  txSig: string;
+  /** Chatroom the tip was announced in */
+  chatroom?: string;
+  /** Announcement message transaction (absent if not announced or the announcement failed) */
+  announcementTx?: string;
+}
+
+/**
+ * Tip recorded against the daily cap
+ */
+export interface IQTipRecord {
+  wallet: string;
+  lamports: number;
+  /** Transfer signature (empty while the transfer is in flight) */
+  signature: string;
+  /** Tip time (ms) */
+  at: number;
+}
+
+/**
+ * Per-chatroom read cursor (high-water mark of processed messages)
+ */
+export interface IQReadCursor {
+  /** ID of the last processed message */
+  lastMessageId: string;
+  /** Transaction signature of the last processed message */
+  lastTxSig?: string;
+  /** ISO timestamp of the last processed message */
+  lastTimestamp: string;
+}
+
+/**
+ * Capabilities available to the agent given the current configuration
+ */
+export interface IQCapabilities {
+  /** Reading chatrooms and polling for new messages */
+  readMessages: boolean;
+  /** Writing messages to chatrooms (requires a wallet) */
+  sendMessages: boolean;
+  /** Inscribing data on Solana (requires a wallet) */
+  inscribeData: boolean;
+  /** Creating chatroom tables on-chain (requires a wallet) */
+  createChatrooms: boolean;
+  /** Browsing Moltbook */
+  moltbookBrowse: boolean;
+  /** Posting and commenting on Moltbook (requires MOLTBOOK_TOKEN) */
+  moltbookPost: boolean;
+}
+
+/**
+ * Kind of on-chain write tracked by the transaction manager
+ */
+export type IQTransactionKind = "message" | "inscription";
+
+/**
+ * Lifecycle state of a tracked write
+ */
+export type IQTransactionStatus = "pending" | "confirmed" | "failed";
+
+/**
+ * Tracked on-chain write
+ */
+export interface IQTransactionRecord {
+  /** Stable record id (signature of the first attempt) */
+  id: string;
+  /** Signature of the latest attempt */
+  signature: string;
+  /** Signatures of all attempts, oldest first */
+  signatures: string[];
+  kind: IQTransactionKind;
+  /** Id of the message written (the group id for multi-part messages) */
+  messageId?: string;
+  /** Chatroom written to (for messages) */
+  chatroom?: string;
+  /** Table written to (for inscriptions) */
+  table?: string;
+  status: IQTransactionStatus;
+  /** Number of send attempts */
+  attempts: number;
+  /** Failure reason */
+  error?: string;
+  /** Submission time (ms) */
+  createdAt: number;
+  /** Last status change (ms) */
+  updatedAt: number;
+}
+
+/**
+ * Write waiting in the persistent outbound queue
+ */
+export interface IQOutboundItem {
+  /** Queue item id */
+  id: string;
+  kind: IQTransactionKind;
+  /** Target chatroom (for messages) */
+  chatroom?: string;
+  /** Target table (for inscriptions) */
+  table?: string;
+  /** Id of the message being written */
+  messageId?: string;
+  /** Identity that signs the write (default identity when absent) */
+  identity?: string;
+  /** Hex-encoded table seed */
+  tableSeed: string;
+  /** Row payload */
+  rowJson: string;
+  /** Enqueue time (ms) */
+  enqueuedAt: number;
+  /** Send attempts so far */
+  attempts: number;
+  /** Earliest time of the next attempt (ms) */
+  nextAttemptAt: number;
+  /** Last transient error */
+  lastError?: string;
 }
 
 /**
@@ -91,9 +742,15 @@ export const IQEventTypes = {
   MESSAGE_RECEIVED: "iq.message.received",
   MESSAGE_SENT: "iq.message.sent",
   CHATROOM_CONNECTED: "iq.chatroom.connected",
+  CHATROOM_DISCONNECTED: "iq.chatroom.disconnected",
+  CHATROOM_CREATED: "iq.chatroom.created",
   MOLTBOOK_POST_CREATED: "iq.moltbook.post.created",
   MOLTBOOK_COMMENT_CREATED: "iq.moltbook.comment.created",
   DATA_INSCRIBED: "iq.data.inscribed",
+  TIP_SENT: "iq.tip.sent",
+  WALLET_LOW_BALANCE: "iq.wallet.low_balance",
+  TX_CONFIRMED: "iq.tx.confirmed",
+  TX_FAILED: "iq.tx.failed",
 } as const;
 
 export type IQEventType = (typeof IQEventTypes)[keyof typeof IQEventTypes];
@@ -105,6 +762,23 @@ export interface IQMessagePayload {
   message: IQMessage;
   chatroom: string;
   txSig?: string;
+  /** Whether the sender was verified (incoming messages only) */
+  verified?: boolean;
+}
+
+/**
+ * Payload for chatroom connect/disconnect events
+ */
+export interface IQChatroomPayload {
+  chatroom: string;
+  tablePda: string;
+}
+
+/**
+ * Payload for transaction lifecycle events
+ */
+export interface IQTransactionPayload {
+  transaction: IQTransactionRecord;
 }
 
 /**
@@ -113,16 +787,34 @@ export interface IQMessagePayload {
 export interface IIQService {
   /** Service type identifier */
   readonly serviceType: string;
-  /** Send a message to a chatroom (target resolved by name/fuzzy match, defaults to default chatroom) */
-  sendMessage(content: string, chatroom?: string): Promise<string>;
+  /** Send a message to a chatroom (target resolved by name/fuzzy match, defaults to default chatroom) or, given a wallet address, as a direct message */
+  sendMessage(content: string, chatroom?: string, options?: IQSendOptions): Promise<string>;
+  /** Find the most recent message in a chatroom from a sender (display name or wallet) */
+  findLatestMessageFrom(sender: string, chatroom?: string): Promise<IQMessage | undefined>;
   /** Read recent messages from a chatroom (defaults to default chatroom) */
   readMessages(limit?: number, chatroom?: string): Promise<IQMessage[]>;
-  /** Get list of connected chatroom names */
+  /** Get list of connected chatroom names (direct message tables excluded) */
   getConnectedChatrooms(): string[];
+  /** Wallets the agent has direct message channels with */
+  getDirectMessageWallets(): string[];
+  /** Connect to a chatroom and start polling it; persisted across restarts */
+  joinChatroom(name: string): Promise<IQChatroom>;
+  /** Stop polling a chatroom and disconnect from it; persisted across restarts */
+  leaveChatroom(ref: string): Promise<string>;
   /** Get the default chatroom name */
   getDefaultChatroom(): string;
-  /** Resolve a chatroom reference (name, fuzzy match) to an exact chatroom name */
-  resolveChatroom(ref: string): string;
+  /** Resolve a chatroom reference to an exact chatroom name; throws if ambiguous or unknown */
+  resolveChatroom(ref: string, options?: { allowNew?: boolean }): string;
+  /** Rank known chatrooms against a reference without throwing */
+  matchChatroom(ref: string): IQChatroomResolution;
+  /** Create a chatroom's table on-chain if it doesn't exist yet */
+  createChatroom(name: string, options?: IQCreateChatroomOptions): Promise<IQCreateChatroomResult>;
+  /** List chatrooms under the database root, most recently active first */
+  listChatrooms(refresh?: boolean): Promise<IQChatroomListing[]>;
+  /** Get a chatroom with its gate and writer list loaded from the table account */
+  getChatroomInfo(ref: string): Promise<IQChatroom>;
+  /** Check whether the agent's wallet (or a named identity's) may write to a chatroom (by token holding or writer list) */
+  checkWriteAccess(chatroom?: string, identity?: string): Promise<IQWriteAccess>;
   /** Post to Moltbook */
   moltbookPost(submolt: string, title: string, content: string): Promise<string>;
   /** Browse Moltbook posts */
@@ -133,10 +825,44 @@ export interface IIQService {
   moltbookReply(postId: string, parentId: string, content: string): Promise<string>;
   /** Read a Moltbook post with comments */
   moltbookReadPost(postId: string): Promise<{ post: MoltbookPost; comments: MoltbookComment[] }>;
-  /** Inscribe data permanently on Solana */
-  inscribeData(data: string, table: string): Promise<string>;
-  /** Get wallet public key */
+  /** Send SOL from the default or a named identity's wallet to a wallet address; subject to the tip caps */
+  transferSol(to: string, amount: number, identity?: string): Promise<string>;
+  /** Find a tip recipient by wallet address, display name in recent messages, or "the last person who spoke in <room>" */
+  resolveTipRecipient(ref: string, chatroom?: string): Promise<IQTipRecipient>;
+  /** Tip a chat participant in SOL and announce it in the chatroom */
+  tipUser(ref: string, amount: number, options?: IQTipOptions): Promise<IQTipResult>;
+  /** SOL that can still be tipped in the current 24-hour window */
+  getTipAllowance(): Promise<number>;
+  /** Inscribe data permanently on Solana, signed by the default or a named identity */
+  inscribeData(data: string, table: string, identity?: string): Promise<string>;
+  /** Look up a tracked write by any of its signatures */
+  getTransactionStatus(signature: string): IQTransactionRecord | undefined;
+  /** Look up the tracked writes for a message id (one per part for multi-part messages) */
+  getMessageTransactions(messageId: string): IQTransactionRecord[];
+  /** Number of writes waiting in the outbound queue */
+  getOutboundQueueDepth(): number;
+  /** Writes waiting in the outbound queue, oldest first */
+  getPendingOutbound(): IQOutboundItem[];
+  /** Latency, error counts and circuit state per read backend, in configured order */
+  getReaderStats(): IQReaderStats[];
+  /** Whether the service runs without a wallet (reads only) */
+  isReadOnly(): boolean;
+  /** Get the capabilities enabled by the current configuration */
+  getCapabilities(): IQCapabilities;
+  /** Get the default identity's wallet public key (empty string in read-only mode) */
   getWalletAddress(): string;
+  /** Configured wallet identities, default first */
+  getIdentities(): IQIdentity[];
   /** Get SOL balance */
   getBalance(): Promise<number>;
+  /** Spending against the hourly and daily budgets, and whether the balance is below the minimum */
+  getSpendingStatus(): IQSpendingStatus;
+  /** SPL token holdings of the default or a named identity's wallet, largest first */
+  getTokenBalances(identity?: string): Promise<IQTokenBalance[]>;
+  /** Latest transactions of the default or a named identity's wallet, newest first */
+  getRecentTransactions(limit?: number, identity?: string): Promise<IQWalletTransaction[]>;
+  /** Simulate sending a message and report the fee and rent it would cost, without sending it */
+  estimateWriteCost(content: string, chatroom?: string, identity?: string): Promise<IQCostEstimate>;
+  /** Simulate inscribing data to a table and report the fee and rent it would cost, without sending it */
+  estimateInscriptionCost(data: string, table: string, identity?: string): Promise<IQCostEstimate>;
 }
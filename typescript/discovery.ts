@@ -0,0 +1,176 @@
+import { type Connection, PublicKey, SystemProgram } from "@solana/web3.js";
+import { createHash } from "crypto";
+import iqlabs from "@iqlabs-official/solana-sdk";
+import { CHATROOM_PREFIX, DISCOVERY_DEFAULTS, DM_PREFIX } from "./constants";
+import type { IQChatroomListing } from "./types";
+
+/**
+ * Options for the chatroom directory
+ */
+export interface ChatroomDirectoryOptions {
+  connection: Connection;
+  dbRootId: Uint8Array;
+  dbRootPda: PublicKey;
+  logger: { debug: (msg: string) => void; warn: (msg: string) => void };
+}
+
+/** A listing before the service marks which rooms it is connected to */
+type DirectoryListing = Omit<IQChatroomListing, "connected">;
+
+interface ActivityInfo {
+  lastActivity?: number;
+  recentWrites: number;
+  /** Oldest signature, when the scan reached the start of the table's history */
+  firstSignature?: string;
+}
+
+/**
+ * ChatroomDirectory - lists chatroom tables under the database root
+ *
+ * Table hints are read from the db root account and resolved to table PDAs. Each
+ * table's metadata gives its name and gate; its recent signatures give activity, and
+ * the signer of its first transaction is reported as the creator. Listings are
+ * cached for a few minutes and creators for the life of the process.
+ */
+export class ChatroomDirectory {
+  private cache: { listings: DirectoryListing[]; loadedAt: number } | null = null;
+  private creators: Map<string, string | null> = new Map();
+
+  constructor(private options: ChatroomDirectoryOptions) {}
+
+  /**
+   * List chatrooms, most recently active first
+   */
+  async list(refresh = false): Promise<DirectoryListing[]> {
+    if (!refresh && this.cache && Date.now() - this.cache.loadedAt < DISCOVERY_DEFAULTS.cacheTtlMs) {
+      return this.cache.listings.map((l) => ({ ...l }));
+    }
+
+    const { connection, dbRootId, dbRootPda } = this.options;
+    const root = await iqlabs.reader.getTablelistFromRoot(connection, dbRootId);
+    const hints = Array.from(new Set<string>([...(root.tableSeeds ?? []), ...(root.globalTableSeeds ?? [])]));
+    // DM tables are private to their parties and never listed
+    const tablePdas = hints
+      .filter((hint) => hint && !Buffer.from(hint, "hex").toString("utf8").startsWith(DM_PREFIX))
+      .map((hint) => iqlabs.contract.getTablePda(dbRootPda, this.seedFromHint(hint)));
+
+    // Table metadata in batches; non-chatroom tables (e.g. inscriptions) are skipped
+    const tables: { tablePda: string; name: string; gated: boolean; lastTimestamp: number }[] = [];
+    for (let i = 0; i < tablePdas.length; i += DISCOVERY_DEFAULTS.accountBatchSize) {
+      const batch = tablePdas.slice(i, i + DISCOVERY_DEFAULTS.accountBatchSize);
+      const infos = await connection.getMultipleAccountsInfo(batch);
+      infos.forEach((info, j) => {
+        if (!info) return;
+        try {
+          const meta = iqlabs.reader.decodeTableMeta(info.data);
+          if (!meta.name.startsWith(CHATROOM_PREFIX)) return;
+          tables.push({
+            tablePda: batch[j].toBase58(),
+            name: meta.name.slice(CHATROOM_PREFIX.length),
+            gated: !meta.gate.mint.equals(SystemProgram.programId) || meta.writers.length > 0,
+            lastTimestamp: meta.lastTimestamp,
+          });
+        } catch (error) {
+          this.options.logger.debug(`Could not decode table ${batch[j].toBase58()}: ${error}`);
+        }
+      });
+    }
+
+    // The table's last write time decides which rooms get the detailed lookups
+    tables.sort((a, b) => b.lastTimestamp - a.lastTimestamp);
+
+    const listings: DirectoryListing[] = [];
+    for (const table of tables.slice(0, DISCOVERY_DEFAULTS.maxRooms)) {
+      const activity = await this.getActivity(table.tablePda);
+      listings.push({
+        name: table.name,
+        tablePda: table.tablePda,
+        creator: (await this.getCreator(table.tablePda, activity.firstSignature)) ?? undefined,
+        lastActivity: activity.lastActivity,
+        recentWrites: activity.recentWrites,
+        gated: table.gated,
+      });
+    }
+    if (tables.length > DISCOVERY_DEFAULTS.maxRooms) {
+      this.options.logger.warn(`Found ${tables.length} chatrooms, listing the ${DISCOVERY_DEFAULTS.maxRooms} most recently written`);
+    }
+
+    listings.sort((a, b) => (b.lastActivity ?? 0) - (a.lastActivity ?? 0));
+    this.cache = { listings, loadedAt: Date.now() };
+    return listings.map((l) => ({ ...l }));
+  }
+
+  /**
+   * Names of the DM tables (`dm:<walletA>:<walletB>`) that include a wallet. Only the
+   * db root account is read; DM tables are never part of `list()`.
+   */
+  async listDirectMessageTables(wallet: string): Promise<string[]> {
+    const root = await iqlabs.reader.getTablelistFromRoot(this.options.connection, this.options.dbRootId);
+    const names = new Set<string>();
+    for (const hint of [...(root.tableSeeds ?? []), ...(root.globalTableSeeds ?? [])]) {
+      const text = Buffer.from(hint, "hex").toString("utf8");
+      if (text.startsWith(DM_PREFIX) && text.slice(DM_PREFIX.length).split(":").includes(wallet)) {
+        names.add(text);
+      }
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Names from the last listing, without fetching
+   */
+  getCachedNames(): string[] {
+    return this.cache?.listings.map((l) => l.name) ?? [];
+  }
+
+  /**
+   * A table hint is either the UTF-8 table name (hashed to get the seed) or the raw seed
+   */
+  private seedFromHint(hint: string): Uint8Array {
+    const bytes = Buffer.from(hint, "hex");
+    const text = bytes.toString("utf8");
+    if (text.startsWith(CHATROOM_PREFIX) || text.startsWith(DM_PREFIX)) {
+      return createHash("sha256").update(text).digest();
+    }
+    return bytes;
+  }
+
+  private async getActivity(tablePda: string): Promise<ActivityInfo> {
+    try {
+      const signatures = await this.options.connection.getSignaturesForAddress(new PublicKey(tablePda), {
+        limit: DISCOVERY_DEFAULTS.signatureScan,
+      });
+      const windowStart = (Date.now() - DISCOVERY_DEFAULTS.activityWindowMs) / 1000;
+      const newest = signatures[0]?.blockTime;
+      return {
+        lastActivity: newest ? newest * 1000 : undefined,
+        recentWrites: signatures.filter((s) => (s.blockTime ?? 0) >= windowStart).length,
+        firstSignature:
+          signatures.length > 0 && signatures.length < DISCOVERY_DEFAULTS.signatureScan
+            ? signatures[signatures.length - 1].signature
+            : undefined,
+      };
+    } catch (error) {
+      this.options.logger.debug(`Could not read activity for ${tablePda}: ${error}`);
+      return { recentWrites: 0 };
+    }
+  }
+
+  /**
+   * Fee payer of the table's first transaction (cached; unknown when the history is too long to scan)
+   */
+  private async getCreator(tablePda: string, firstSignature?: string): Promise<string | null> {
+    if (this.creators.has(tablePda)) return this.creators.get(tablePda)!;
+    if (!firstSignature) return null;
+
+    try {
+      const tx = await this.options.connection.getTransaction(firstSignature, { maxSupportedTransactionVersion: 0 });
+      const creator = tx?.transaction.message.staticAccountKeys[0]?.toBase58() ?? null;
+      this.creators.set(tablePda, creator);
+      return creator;
+    } catch (error) {
+      this.options.logger.debug(`Could not read creator of ${tablePda}: ${error}`);
+      return null;
+    }
+  }
+}
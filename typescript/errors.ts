@@ -0,0 +1,149 @@
+/**
+ * Thrown when a write operation is attempted while the service runs without a wallet
+ */
+export class IQWalletRequiredError extends Error {
+  readonly code = "IQ_WALLET_REQUIRED";
+
+  constructor(public readonly operation: string) {
+    super(
+      `${operation} requires a Solana wallet. Set SOLANA_PRIVATE_KEY or SOLANA_KEYPAIR_PATH to enable on-chain writes.`
+    );
+    this.name = "IQWalletRequiredError";
+  }
+}
+
+/**
+ * Thrown when message content exceeds the length limit and cannot be split
+ */
+export class IQContentTooLongError extends Error {
+  readonly code = "IQ_CONTENT_TOO_LONG";
+
+  constructor(public readonly length: number, public readonly maxLength: number) {
+    super(`Message content is ${length} characters, over the ${maxLength} character limit`);
+    this.name = "IQContentTooLongError";
+  }
+}
+
+/**
+ * Thrown when the agent's wallet may not write to a token-gated or writer-restricted chatroom
+ */
+export class IQWriteNotAllowedError extends Error {
+  readonly code = "IQ_WRITE_NOT_ALLOWED";
+
+  constructor(public readonly chatroom: string, public readonly reason: string) {
+    super(`Cannot write to chatroom "${chatroom}": ${reason}`);
+    this.name = "IQWriteNotAllowedError";
+  }
+}
+
+/**
+ * Thrown when a chatroom reference matches several rooms equally well
+ */
+export class IQAmbiguousChatroomError extends Error {
+  readonly code = "IQ_AMBIGUOUS_CHATROOM";
+
+  constructor(public readonly ref: string, public readonly candidates: string[]) {
+    super(`"${ref}" matches several chatrooms: ${candidates.join(", ")}. Please say which one.`);
+    this.name = "IQAmbiguousChatroomError";
+  }
+}
+
+/**
+ * Thrown when a chatroom reference matches no known room and new rooms need confirmation
+ */
+export class IQChatroomNotFoundError extends Error {
+  readonly code = "IQ_CHATROOM_NOT_FOUND";
+
+  constructor(public readonly ref: string) {
+    super(`No chatroom matches "${ref}". Confirm to use it as a new chatroom, or check the name.`);
+    this.name = "IQChatroomNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a tip reference matches no wallet, or several wallets
+ */
+export class IQRecipientNotFoundError extends Error {
+  readonly code = "IQ_RECIPIENT_NOT_FOUND";
+
+  constructor(public readonly ref: string, public readonly candidates: string[] = []) {
+    super(
+      candidates.length > 1
+        ? `"${ref}" was used by several wallets: ${candidates.join(", ")}. Tip by wallet address instead.`
+        : `No wallet found for "${ref}" in recent messages`
+    );
+    this.name = "IQRecipientNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a tip is over the per-tip cap or would exceed the daily cap
+ */
+export class IQTipLimitError extends Error {
+  readonly code = "IQ_TIP_LIMIT_EXCEEDED";
+
+  constructor(public readonly amount: number, public readonly limit: number, public readonly period: "tip" | "daily") {
+    super(
+      period === "tip"
+        ? `Tip of ${amount} SOL is over the per-tip limit of ${limit} SOL`
+        : `Tip of ${amount} SOL would exceed the daily tip limit; ${limit} SOL left in the last 24 hours`
+    );
+    this.name = "IQTipLimitError";
+  }
+}
+
+/**
+ * Thrown when a write would go over the hourly or daily spending budget
+ */
+export class IQBudgetExceededError extends Error {
+  readonly code = "IQ_BUDGET_EXCEEDED";
+
+  constructor(public readonly period: "hourly" | "daily", public readonly budget: number, public readonly spent: number) {
+    super(`The ${period} spending budget of ${budget} SOL is used up (${spent} SOL spent). Writes resume as older spending ages out.`);
+    this.name = "IQBudgetExceededError";
+  }
+}
+
+/**
+ * Thrown when the signing wallet's balance is below the minimum needed for writes
+ */
+export class IQLowBalanceError extends Error {
+  readonly code = "IQ_LOW_BALANCE";
+
+  constructor(public readonly wallet: string, public readonly balance: number, public readonly minBalance: number) {
+    super(`Wallet ${wallet} holds ${balance} SOL, below the ${minBalance} SOL minimum for writes`);
+    this.name = "IQLowBalanceError";
+  }
+}
+
+/**
+ * Thrown when a write's simulation fails, so it isn't sent (IQ_SIMULATE_WRITES)
+ */
+export class IQSimulationFailedError extends Error {
+  readonly code = "IQ_SIMULATION_FAILED";
+
+  constructor(public readonly kind: string, public readonly reason: string) {
+    super(`The ${kind} write was not sent because its simulation failed: ${reason}`);
+    this.name = "IQSimulationFailedError";
+  }
+}
+
+/**
+ * Thrown when a write names an identity that isn't configured
+ */
+export class IQIdentityNotFoundError extends Error {
+  readonly code = "IQ_IDENTITY_NOT_FOUND";
+
+  constructor(public readonly identity: string) {
+    super(`No wallet identity named "${identity}" is configured`);
+    this.name = "IQIdentityNotFoundError";
+  }
+}
+
+/**
+ * Match an IQ error by its `code`. The service and the actions can load separate copies
+ * of this module, and `instanceof` is false for errors thrown by the other copy.
+ */
+export function isIQError<T extends Error & { code: string }>(error: unknown, code: T["code"]): error is T {
+  return error instanceof Error && (error as { code?: unknown }).code === code;
+}
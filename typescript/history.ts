@@ -0,0 +1,210 @@
+import {
+  type ConfirmedSignatureInfo,
+  type Connection,
+  LAMPORTS_PER_SOL,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  PublicKey,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import iqlabs from "@iqlabs-official/solana-sdk";
+import { CHATROOM_PREFIX, DM_PREFIX, HISTORY_DEFAULTS } from "./constants";
+import type { IQWalletTransaction, IQWalletTransactionKind } from "./types";
+
+/** Instructions that write a row to a table */
+const ROW_WRITES = new Set(["db_code_in", "db_instruction_code_in"]);
+
+/** Instructions that upload data to the wallet's own inventory (e.g. attachments) */
+const INVENTORY_WRITES = new Set(["user_inventory_code_in", "user_inventory_code_in_for_free", "post_chunk", "send_code"]);
+
+/** Instructions that create a table */
+const TABLE_CREATES = new Set(["create_table", "create_admin_table", "create_ext_table", "create_private_table"]);
+
+/** IQ program instructions by discriminator (hex), with the position of their table account */
+const IQ_INSTRUCTIONS = new Map(
+  iqlabs.contract.IQ_IDL.instructions.map((ix) => [
+    Buffer.from(ix.discriminator).toString("hex"),
+    { name: ix.name, tableIndex: ix.accounts.findIndex((account) => account.name === "table") },
+  ])
+);
+
+/**
+ * Options for the transaction history reader
+ */
+export interface TransactionHistoryOptions {
+  connection: Connection;
+  logger: { debug: (msg: string) => void };
+}
+
+/** An IQ program instruction found in a transaction */
+interface IQInstruction {
+  name: string;
+  /** Table PDA, for instructions that touch a table */
+  table?: string;
+}
+
+/**
+ * Find the IQ program instructions in a transaction; the RPC node can't parse them,
+ * so they are matched by discriminator
+ */
+function decodeIQInstructions(tx: ParsedTransactionWithMeta): IQInstruction[] {
+  const programId = iqlabs.contract.PROGRAM_ID.toBase58();
+  const found: IQInstruction[] = [];
+  for (const ix of tx.transaction.message.instructions) {
+    if (ix.programId.toBase58() !== programId || !("data" in ix)) continue;
+    const known = IQ_INSTRUCTIONS.get(Buffer.from(bs58.decode(ix.data).subarray(0, 8)).toString("hex"));
+    if (!known) continue;
+    found.push({
+      name: known.name,
+      table: known.tableIndex >= 0 ? ix.accounts[known.tableIndex]?.toBase58() : undefined,
+    });
+  }
+  return found;
+}
+
+/**
+ * TransactionHistory - reads a wallet's recent transactions and says what each did
+ *
+ * A row written to a chatroom or DM table is a message, a row written to any other
+ * table (or data uploaded to the wallet's inventory) is an inscription, and a SOL
+ * transfer out of the wallet is a tip. Anything else is "other". Tables are named from
+ * their on-chain metadata, which is cached since a table's name never changes.
+ */
+export class TransactionHistory {
+  private tableNames: Map<string, string | null> = new Map();
+
+  constructor(private options: TransactionHistoryOptions) {}
+
+  /**
+   * The wallet's latest transactions, newest first
+   */
+  async getRecent(wallet: PublicKey, limit: number): Promise<IQWalletTransaction[]> {
+    const { connection } = this.options;
+    const signatures = await connection.getSignaturesForAddress(wallet, { limit });
+
+    const transactions: (ParsedTransactionWithMeta | null)[] = [];
+    for (let i = 0; i < signatures.length; i += HISTORY_DEFAULTS.fetchBatchSize) {
+      const batch = signatures.slice(i, i + HISTORY_DEFAULTS.fetchBatchSize).map((s) => s.signature);
+      transactions.push(...(await connection.getParsedTransactions(batch, { maxSupportedTransactionVersion: 0 })));
+    }
+
+    const instructions = transactions.map((tx) => (tx ? decodeIQInstructions(tx) : []));
+    await this.resolveTableNames(instructions.flat().flatMap((ix) => (ix.table ? [ix.table] : [])));
+
+    return signatures.map((info, i) => this.classify(wallet.toBase58(), info, transactions[i], instructions[i]));
+  }
+
+  private classify(
+    wallet: string,
+    info: ConfirmedSignatureInfo,
+    tx: ParsedTransactionWithMeta | null,
+    instructions: IQInstruction[]
+  ): IQWalletTransaction {
+    const entry: IQWalletTransaction = {
+      signature: info.signature,
+      kind: "other",
+      slot: info.slot,
+      ...(info.blockTime ? { time: info.blockTime * 1000 } : {}),
+      success: !info.err,
+      ...(info.err ? { error: JSON.stringify(info.err) } : {}),
+      fee: 0,
+      balanceChange: 0,
+    };
+    // Transactions the node no longer has are listed without details
+    if (!tx) return entry;
+
+    const index = tx.transaction.message.accountKeys.findIndex((key) => key.pubkey.toBase58() === wallet);
+    if (tx.meta && index >= 0) {
+      // The fee payer is always the first account
+      entry.fee = index === 0 ? tx.meta.fee / LAMPORTS_PER_SOL : 0;
+      entry.balanceChange = (tx.meta.postBalances[index] - tx.meta.preBalances[index]) / LAMPORTS_PER_SOL;
+    }
+
+    const write = instructions.find((ix) => ROW_WRITES.has(ix.name));
+    const create = instructions.find((ix) => TABLE_CREATES.has(ix.name));
+    if (write) {
+      Object.assign(entry, this.describeTable(write.table));
+      entry.kind = entry.chatroom ? "message" : "inscription";
+      return entry;
+    }
+    if (instructions.some((ix) => INVENTORY_WRITES.has(ix.name))) {
+      entry.kind = "inscription";
+      return entry;
+    }
+    if (create) {
+      Object.assign(entry, this.describeTable(create.table));
+      return entry;
+    }
+
+    const transfer = tx.transaction.message.instructions.find(
+      (ix): ix is ParsedInstruction =>
+        "parsed" in ix &&
+        ix.program === "system" &&
+        ix.parsed?.type === "transfer" &&
+        ix.parsed.info?.source === wallet &&
+        ix.parsed.info?.destination !== wallet
+    );
+    if (transfer) {
+      entry.kind = "tip";
+      entry.recipient = transfer.parsed.info.destination;
+      entry.amount = Number(transfer.parsed.info.lamports) / LAMPORTS_PER_SOL;
+    }
+    return entry;
+  }
+
+  /**
+   * Chatroom or table name for a table PDA; DM tables keep their full name, as chatrooms do
+   */
+  private describeTable(tablePda?: string): { chatroom?: string; table?: string } {
+    const name = tablePda ? this.tableNames.get(tablePda) : undefined;
+    if (!name) return {};
+    if (name.startsWith(CHATROOM_PREFIX)) return { chatroom: name.slice(CHATROOM_PREFIX.length) };
+    if (name.startsWith(DM_PREFIX)) return { chatroom: name };
+    return { table: name };
+  }
+
+  /**
+   * Read the names of tables not seen before; a failed lookup leaves them unnamed
+   */
+  private async resolveTableNames(tablePdas: string[]): Promise<void> {
+    const unknown = Array.from(new Set(tablePdas)).filter((pda) => !this.tableNames.has(pda));
+    for (let i = 0; i < unknown.length; i += HISTORY_DEFAULTS.accountBatchSize) {
+      const batch = unknown.slice(i, i + HISTORY_DEFAULTS.accountBatchSize);
+      try {
+        const infos = await this.options.connection.getMultipleAccountsInfo(batch.map((pda) => new PublicKey(pda)));
+        infos.forEach((info, j) => {
+          let name: string | null = null;
+          try {
+            name = info ? iqlabs.reader.decodeTableMeta(info.data).name || null : null;
+          } catch {
+            // Not a table account we can decode
+          }
+          this.tableNames.set(batch[j], name);
+        });
+      } catch (error) {
+        this.options.logger.debug(`Could not read table names: ${error}`);
+      }
+    }
+  }
+}
+
+/**
+ * Spending summary for a list of transactions, e.g.
+ * "0.0123 SOL spent (0.00005 SOL in fees): 8 messages, 1 inscription, 1 tip"
+ */
+export function summarizeTransactions(transactions: IQWalletTransaction[]): string {
+  const sol = (n: number) => `${Number(n.toFixed(6))} SOL`;
+  const spent = transactions.reduce((sum, t) => sum + Math.max(0, -t.balanceChange), 0);
+  const fees = transactions.reduce((sum, t) => sum + t.fee, 0);
+  const labels: Record<IQWalletTransactionKind, [string, string]> = {
+    message: ["message", "messages"],
+    inscription: ["inscription", "inscriptions"],
+    tip: ["tip", "tips"],
+    other: ["other", "other"],
+  };
+  const counts = (Object.keys(labels) as IQWalletTransactionKind[])
+    .map((kind) => [kind, transactions.filter((t) => t.kind === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${labels[kind][count === 1 ? 0 : 1]}`);
+  return `${sol(spent)} spent (${sol(fees)} in fees)${counts.length > 0 ? `: ${counts.join(", ")}` : ""}`;
+}
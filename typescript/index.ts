@@ -6,11 +6,19 @@ import { IQService } from "./service";
 // Actions
 import sendMessageAction from "../actions/sendMessage";
 import readMessagesAction from "../actions/readMessages";
+import replyMessageAction from "../actions/replyMessage";
+import createChatroomAction from "../actions/createChatroom";
+import listChatroomsAction from "../actions/listChatrooms";
+import joinChatroomAction from "../actions/joinChatroom";
+import leaveChatroomAction from "../actions/leaveChatroom";
 import moltbookPostAction from "../actions/moltbookPost";
 import moltbookBrowseAction from "../actions/moltbookBrowse";
 import moltbookCommentAction from "../actions/moltbookComment";
 import inscribeDataAction from "../actions/inscribeData";
 import getWalletInfoAction from "../actions/getWalletInfo";
+import tipUserAction from "../actions/tipUser";
+import getTxHistoryAction from "../actions/getTxHistory";
+import estimateCostAction from "../actions/estimateCost";
 
 // Providers
 import { chatroomStateProvider } from "../providers/chatroomState";
@@ -18,6 +26,7 @@ import { onChainStateProvider } from "../providers/onChainState";
 
 // Constants and types
 import { IQ_SERVICE_NAME, URLS, DEFAULT_CHATROOM, DEFAULT_CHATROOMS } from "./constants";
+import { getIQSettings, hasKeySource } from "./environment";
 
 /**
  * IQ Plugin
@@ -43,17 +52,27 @@ const iqPlugin: Plugin = {
   actions: [
     sendMessageAction,
     readMessagesAction,
+    replyMessageAction,
+    createChatroomAction,
+    listChatroomsAction,
+    joinChatroomAction,
+    leaveChatroomAction,
     moltbookPostAction,
     moltbookBrowseAction,
     moltbookCommentAction,
     inscribeDataAction,
     getWalletInfoAction,
+    tipUserAction,
+    getTxHistoryAction,
+    estimateCostAction,
   ],
   
   providers: [chatroomStateProvider, onChainStateProvider],
 
   init: async (_config: Record<string, string>, runtime: IAgentRuntime) => {
     const keypairPath = runtime.getSetting("SOLANA_KEYPAIR_PATH") as string;
+    const keystorePath = runtime.getSetting("IQ_KEYSTORE_PATH") as string;
+    const remoteSignerUrl = runtime.getSetting("IQ_REMOTE_SIGNER_URL") as string;
     const privateKey = runtime.getSetting("SOLANA_PRIVATE_KEY") as string;
     const rpcUrl = runtime.getSetting("SOLANA_RPC_URL") as string;
     const agentName = runtime.getSetting("IQ_AGENT_NAME") as string;
@@ -61,7 +80,9 @@ const iqPlugin: Plugin = {
     const chatrooms = runtime.getSetting("IQ_CHATROOMS") as string;
     const moltbookToken = runtime.getSetting("MOLTBOOK_TOKEN") as string;
 
-    const hasKeypair = !!(keypairPath || privateKey);
+    // Same check the service makes on start (IQ_IDENTITIES alone can sign)
+    const settings = getIQSettings(runtime);
+    const hasKeypair = hasKeySource(settings) || settings.identities.length > 0;
 
     // Log plugin initialization
     logger.info("=".repeat(50));
@@ -70,6 +91,8 @@ const iqPlugin: Plugin = {
     logger.info("");
     logger.info("Settings:");
     logger.info(`  SOLANA_PRIVATE_KEY: ${privateKey ? "[set]" : "[not set]"}`);
+    if (keystorePath) logger.info(`  IQ_KEYSTORE_PATH: ${keystorePath}`);
+    if (remoteSignerUrl) logger.info(`  IQ_REMOTE_SIGNER_URL: ${remoteSignerUrl}`);
     logger.info(`  SOLANA_KEYPAIR_PATH: ${keypairPath ? "[set]" : "[not set]"}`);
     logger.info(`  SOLANA_RPC_URL: ${rpcUrl || URLS.solanaRpc}`);
     logger.info(`  IQ_AGENT_NAME: ${agentName || runtime.character?.name || "Agent"}`);
@@ -106,6 +129,52 @@ export type {
   IQSettings,
   IQMessage,
   IQChatroom,
+  IQReadCursor,
+  IQCapabilities,
+  IQSubscriptionMode,
+  IQSendOptions,
+  IQAttachment,
+  IQLongMessageMode,
+  IQCommitment,
+  IQTransactionKind,
+  IQTransactionStatus,
+  IQTransactionRecord,
+  IQTransactionPayload,
+  IQOutboundItem,
+  IQUnverifiedPolicy,
+  IQVerificationResult,
+  IQReaderName,
+  IQReaderStats,
+  IQCreateChatroomOptions,
+  IQCreateChatroomResult,
+  IQChatroomGate,
+  IQGateType,
+  IQWriteAccess,
+  IQChatroomListing,
+  IQMembership,
+  IQChatroomPayload,
+  IQUnknownChatroomPolicy,
+  IQChatroomMatchKind,
+  IQChatroomCandidate,
+  IQChatroomResolution,
+  IQEngagementPolicy,
+  IQEngagementDecision,
+  IQEngagementFilterReason,
+  IQEnvelope,
+  IQIdentity,
+  IQIdentityConfig,
+  IQTipRecipient,
+  IQTipOptions,
+  IQTipResult,
+  IQTokenBalance,
+  IQTokenMetadata,
+  IQSpendKind,
+  IQSpendRecord,
+  IQSpendingStatus,
+  IQLowBalancePayload,
+  IQWalletTransaction,
+  IQWalletTransactionKind,
+  IQCostEstimate,
   MoltbookPost,
   MoltbookComment,
   IQEventType,
@@ -115,5 +184,38 @@ export type {
 // Export event types
 export { IQEventTypes } from "./types";
 
+// Export errors
+export {
+  IQWalletRequiredError,
+  IQContentTooLongError,
+  IQWriteNotAllowedError,
+  IQAmbiguousChatroomError,
+  IQChatroomNotFoundError,
+  IQIdentityNotFoundError,
+  IQRecipientNotFoundError,
+  IQTipLimitError,
+  IQBudgetExceededError,
+  IQLowBalanceError,
+  IQSimulationFailedError,
+} from "./errors";
+
+// Export signers
+export { KeypairSigner, KeystoreSigner, RemoteSigner } from "./signers";
+export type { Signer, RemoteSignerOptions } from "./signers";
+
+// Export token metadata resolvers
+export { OnChainTokenMetadataResolver, StaticTokenMetadataResolver, formatTokenBalances } from "./tokens";
+export type { TokenMetadataResolver } from "./tokens";
+
+// Export spending guard helpers
+export { formatSpendingStatus } from "./spending";
+
+// Export transaction history helpers
+export { summarizeTransactions } from "./history";
+
+// Export write simulation
+export { simulateWrite, formatCostEstimate } from "./simulation";
+export type { SdkWrite } from "./simulation";
+
 // Export constants
 export { URLS, DEFAULT_CHATROOM, DEFAULT_CHATROOMS, DB_ROOT_NAME, CHATROOM_PREFIX } from "./constants";
@@ -0,0 +1,229 @@
+import type { IQOutboundItem, IQTransactionRecord } from "./types";
+
+/**
+ * Options for the outbound queue
+ */
+export interface OutboundQueueOptions {
+  /** Max writes per chatroom per minute */
+  perChatroomPerMinute: number;
+  /** Max writes across all chatrooms per minute */
+  globalPerMinute: number;
+  /** Attempts before a transient failure becomes final */
+  maxAttempts: number;
+  /** First retry delay; doubles on every attempt (ms) */
+  baseBackoffMs: number;
+  /** Performs the write for an item */
+  write: (item: IQOutboundItem) => Promise<IQTransactionRecord>;
+  /** Persists the queue contents */
+  persist: (items: IQOutboundItem[]) => Promise<void>;
+  logger: { debug: (msg: string) => void; warn: (msg: string) => void; error: (msg: string) => void };
+}
+
+interface Waiter {
+  resolve: (record: IQTransactionRecord) => void;
+  reject: (error: unknown) => void;
+}
+
+const WINDOW_MS = 60_000;
+
+/** RPC failures worth retrying: rate limits, timeouts, dropped connections, stale blockhashes */
+const TRANSIENT_ERROR_PATTERN =
+  /429|too many requests|timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|fetch failed|503|502|blockhash not found|node is behind/i;
+
+/**
+ * Whether an error from a write looks transient and is worth retrying
+ */
+export function isTransientError(error: unknown): boolean {
+  return TRANSIENT_ERROR_PATTERN.test(String(error instanceof Error ? error.message : error));
+}
+
+/**
+ * OutboundQueue - serializes on-chain writes from one wallet
+ *
+ * Items are written one at a time in FIFO order per chatroom, subject to per-chatroom
+ * and global rate limits; a rate-limited chatroom does not hold up the others.
+ * Transient RPC errors are retried with exponential backoff. The queue is persisted
+ * after every change so writes that were pending at shutdown are sent after restart.
+ */
+export class OutboundQueue {
+  private items: IQOutboundItem[] = [];
+  private waiters: Map<string, Waiter> = new Map();
+  private chatroomWrites: Map<string, number[]> = new Map();
+  private globalWrites: number[] = [];
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+
+  constructor(private options: OutboundQueueOptions) {}
+
+  /**
+   * Restore items persisted by a previous run and start sending them
+   */
+  restore(items: IQOutboundItem[]): void {
+    if (items.length === 0) return;
+    this.items.push(...items);
+    this.options.logger.debug(`Restored ${items.length} queued outbound writes`);
+    this.wake();
+  }
+
+  /**
+   * Queue a write; resolves once it has been submitted on-chain
+   */
+  enqueue(item: IQOutboundItem): Promise<IQTransactionRecord> {
+    const done = new Promise<IQTransactionRecord>((resolve, reject) => {
+      this.waiters.set(item.id, { resolve, reject });
+    });
+    this.items.push(item);
+    void this.save();
+    this.wake();
+    return done;
+  }
+
+  getDepth(): number {
+    return this.items.length;
+  }
+
+  getPending(): IQOutboundItem[] {
+    return this.items.map((item) => ({ ...item }));
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private wake(): void {
+    if (this.stopped || this.running) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    void this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    this.running = true;
+    try {
+      while (!this.stopped) {
+        const next = this.nextEligible();
+        if (!next) break;
+        await this.process(next);
+      }
+    } finally {
+      this.running = false;
+    }
+
+    // Sleep until the earliest item becomes eligible
+    if (!this.stopped && this.items.length > 0) {
+      const delay = Math.max(100, this.nextWakeTime() - Date.now());
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.drain();
+      }, delay);
+    }
+  }
+
+  private async process(item: IQOutboundItem): Promise<void> {
+    const now = Date.now();
+    item.attempts++;
+    this.recordWrite(item, now);
+
+    try {
+      const record = await this.options.write(item);
+      this.remove(item);
+      this.waiters.get(item.id)?.resolve(record);
+      this.waiters.delete(item.id);
+    } catch (error) {
+      item.lastError = String(error);
+
+      if (isTransientError(error) && item.attempts < this.options.maxAttempts) {
+        item.nextAttemptAt = now + this.options.baseBackoffMs * 2 ** (item.attempts - 1);
+        this.options.logger.warn(
+          `Transient error writing ${item.kind} (attempt ${item.attempts}), retrying: ${error}`
+        );
+        await this.save();
+        return;
+      }
+
+      this.options.logger.error(`Outbound ${item.kind} write failed after ${item.attempts} attempts: ${error}`);
+      this.remove(item);
+      this.waiters.get(item.id)?.reject(error);
+      this.waiters.delete(item.id);
+    }
+  }
+
+  /**
+   * First item that is the head of its chatroom, past its backoff, and within rate limits
+   */
+  private nextEligible(): IQOutboundItem | undefined {
+    const now = Date.now();
+    if (this.windowCount(this.globalWrites, now) >= this.options.globalPerMinute) return undefined;
+
+    const blockedKeys = new Set<string>();
+    for (const item of this.items) {
+      const key = this.rateKey(item);
+      if (blockedKeys.has(key)) continue;
+      // Later items of the same chatroom wait behind this one to keep ordering
+      blockedKeys.add(key);
+
+      if (item.nextAttemptAt > now) continue;
+      if (item.chatroom && this.windowCount(this.chatroomWrites.get(key) ?? [], now) >= this.options.perChatroomPerMinute) {
+        continue;
+      }
+      return item;
+    }
+    return undefined;
+  }
+
+  private nextWakeTime(): number {
+    const now = Date.now();
+    const candidates: number[] = [];
+
+    if (this.windowCount(this.globalWrites, now) >= this.options.globalPerMinute) {
+      candidates.push(this.globalWrites[0] + WINDOW_MS);
+    }
+    for (const item of this.items) {
+      candidates.push(item.nextAttemptAt);
+      const writes = this.chatroomWrites.get(this.rateKey(item)) ?? [];
+      if (item.chatroom && this.windowCount(writes, now) >= this.options.perChatroomPerMinute) {
+        candidates.push(writes[0] + WINDOW_MS);
+      }
+    }
+    const future = candidates.filter((t) => t > now);
+    return future.length > 0 ? Math.min(...future) : now + 1000;
+  }
+
+  private recordWrite(item: IQOutboundItem, now: number): void {
+    this.globalWrites.push(now);
+    const key = this.rateKey(item);
+    const writes = this.chatroomWrites.get(key) ?? [];
+    writes.push(now);
+    this.chatroomWrites.set(key, writes);
+  }
+
+  /**
+   * Count writes inside the sliding window, dropping expired entries in place
+   */
+  private windowCount(writes: number[], now: number): number {
+    while (writes.length > 0 && writes[0] <= now - WINDOW_MS) writes.shift();
+    return writes.length;
+  }
+
+  private rateKey(item: IQOutboundItem): string {
+    return item.chatroom ? `chatroom:${item.chatroom.toLowerCase()}` : `table:${item.table ?? ""}`;
+  }
+
+  private remove(item: IQOutboundItem): void {
+    this.items = this.items.filter((i) => i !== item);
+    void this.save();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.options.persist(this.items);
+    } catch (error) {
+      this.options.logger.debug(`Could not persist outbound queue: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { IQMessage } from "./types";
+
+/**
+ * Split content into parts of at most `maxLength` characters, preferring whitespace
+ * boundaries. Whitespace stays attached to the parts so joining them restores the input,
+ * and a hard cut never falls inside a surrogate pair (e.g. an emoji).
+ */
+export function splitContent(content: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  let rest = content;
+
+  while (rest.length > maxLength) {
+    let cut = maxLength;
+    const lastSpace = rest.slice(0, maxLength).search(/\s\S*$/);
+    if (lastSpace > maxLength / 2) cut = lastSpace + 1;
+    else if (cut > 1 && isHighSurrogate(rest.charCodeAt(cut - 1))) cut -= 1;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  if (rest.length > 0 || parts.length === 0) parts.push(rest);
+
+  return parts;
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Put multi-part messages back together. Parts sharing a `part_group` become one
+ * message whose id is the group id and whose timestamp/tx_sig come from the newest part.
+ * Groups with missing parts are returned with `partial: true`.
+ */
+export function reassembleParts(messages: IQMessage[]): IQMessage[] {
+  const groups: Map<string, IQMessage[]> = new Map();
+  const result: IQMessage[] = [];
+
+  for (const msg of messages) {
+    if (!msg.part_group) {
+      result.push(msg);
+      continue;
+    }
+    const group = groups.get(msg.part_group);
+    if (group) {
+      group.push(msg);
+    } else {
+      groups.set(msg.part_group, [msg]);
+      // Placeholder keeps the group at the position of its first part
+      result.push(msg);
+    }
+  }
+
+  return result.map((msg) => {
+    if (!msg.part_group) return msg;
+    const group = groups.get(msg.part_group) ?? [msg];
+
+    const byIndex: Map<number, IQMessage> = new Map();
+    for (const part of group) byIndex.set(part.part_index ?? 0, part);
+    const ordered = Array.from(byIndex.values()).sort((a, b) => (a.part_index ?? 0) - (b.part_index ?? 0));
+
+    const first = ordered[0];
+    const newest = ordered.reduce((a, b) => (Date.parse(b.timestamp) > Date.parse(a.timestamp) ? b : a));
+    const total = first.part_total ?? ordered.length;
+
+    return {
+      ...first,
+      id: msg.part_group,
+      content: ordered.map((p) => p.content).join(""),
+      timestamp: newest.timestamp,
+      tx_sig: newest.tx_sig,
+      part_index: undefined,
+      part_total: total,
+      partial: ordered.length < total,
+    };
+  });
+}
@@ -0,0 +1,125 @@
+import { RESOLVER_DEFAULTS } from "./constants";
+import type { IQChatroomCandidate, IQChatroomResolution } from "./types";
+
+/**
+ * Lowercase, trim and collapse whitespace
+ */
+function normalize(s: string): string {
+  return s.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+function tokens(s: string): string[] {
+  return normalize(s).split(/[\s\-_:/.]+/).filter(Boolean);
+}
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+}
+
+/**
+ * Score one chatroom name against a reference; undefined when it doesn't match at all
+ */
+function scoreName(ref: string, name: string): IQChatroomCandidate | undefined {
+  const r = normalize(ref);
+  const n = normalize(name);
+
+  if (r === n) return { name, score: 1, match: "exact" };
+  // Very short references only match exactly or through an alias
+  if (r.length < RESOLVER_DEFAULTS.minPartialLength) return undefined;
+
+  if (n.startsWith(r)) {
+    return { name, score: 0.8 + 0.1 * (r.length / n.length), match: "prefix" };
+  }
+
+  // Every reference token equals or starts a token of the name: "pump" -> "Pump Fun"
+  const refTokens = tokens(r);
+  const nameTokens = tokens(n);
+  const tokenHits = refTokens.filter((rt) => nameTokens.some((nt) => nt === rt || nt.startsWith(rt)));
+  if (refTokens.length > 0 && tokenHits.length === refTokens.length) {
+    const coverage = refTokens.join("").length / nameTokens.join("").length;
+    return { name, score: 0.7 + 0.1 * Math.min(coverage, 1), match: "token" };
+  }
+
+  // Typos: whole name, or the closest single token for one-word references
+  const best = Math.max(
+    similarity(r, n),
+    refTokens.length === 1 ? Math.max(0, ...nameTokens.map((nt) => similarity(r, nt))) : 0
+  );
+  if (best >= RESOLVER_DEFAULTS.minFuzzySimilarity) {
+    return { name, score: 0.6 * best, match: "fuzzy" };
+  }
+
+  return undefined;
+}
+
+/**
+ * Rank chatroom names against a reference. Aliases map a lowercase alias to a chatroom
+ * name and win over everything except an exact name match.
+ */
+export function rankChatrooms(ref: string, names: string[], aliases: Record<string, string> = {}): IQChatroomCandidate[] {
+  const byName = new Map<string, IQChatroomCandidate>();
+  const keep = (candidate: IQChatroomCandidate) => {
+    const key = normalize(candidate.name);
+    const existing = byName.get(key);
+    if (!existing || existing.score < candidate.score) byName.set(key, candidate);
+  };
+
+  const alias = aliases[normalize(ref)];
+  if (alias) keep({ name: alias, score: 0.99, match: "alias" });
+
+  for (const name of names) {
+    const candidate = scoreName(ref, name);
+    if (candidate) keep(candidate);
+  }
+
+  return Array.from(byName.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Resolve a reference to one chatroom, or report it as ambiguous or not found
+ */
+export function resolveChatroomRef(
+  ref: string,
+  names: string[],
+  aliases: Record<string, string> = {}
+): IQChatroomResolution {
+  const ranked = rankChatrooms(ref, names, aliases);
+  const [top, second] = ranked;
+
+  if (!top) return { status: "not_found", ref };
+
+  const clearWinner =
+    top.match === "exact" ||
+    top.match === "alias" ||
+    !second ||
+    top.score - second.score > RESOLVER_DEFAULTS.ambiguityMargin;
+
+  if (clearWinner) return { status: "resolved", ref, chatroom: top.name, candidate: top };
+
+  return {
+    status: "ambiguous",
+    ref,
+    candidates: ranked
+      .filter((c) => top.score - c.score <= RESOLVER_DEFAULTS.ambiguityMargin)
+      .slice(0, RESOLVER_DEFAULTS.maxCandidates),
+  };
+}
@@ -0,0 +1,91 @@
+import { type Keypair, VersionedTransaction } from "@solana/web3.js";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import bs58 from "bs58";
+import { KeypairSigner } from "./signers";
+
+/**
+ * Options for the stub signing server
+ */
+export interface StubSigningServerOptions {
+  /** Port to listen on (0 picks a free one) */
+  port?: number;
+  /** Bearer token required on every request */
+  authToken?: string;
+  /** Delay before answering each request (ms), to exercise client timeouts */
+  responseDelayMs?: number;
+}
+
+/**
+ * A running stub signing server
+ */
+export interface StubSigningServer {
+  /** Base URL to pass to RemoteSigner */
+  url: string;
+  close(): Promise<void>;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function respond(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start a local stand-in for a remote signing endpoint, holding the key in memory.
+ * Speaks the protocol RemoteSigner expects and signs anything that names its wallet,
+ * so it is only for tests and is not exported from the plugin.
+ */
+export async function startStubSigningServer(
+  keypair: Keypair,
+  options: StubSigningServerOptions = {}
+): Promise<StubSigningServer> {
+  const signer = new KeypairSigner(keypair);
+  const wallet = keypair.publicKey.toBase58();
+
+  const sign = async (path: string, body: Record<string, unknown>): Promise<Uint8Array> => {
+    if (body.publicKey !== wallet) throw new Error(`This signer only signs for ${wallet}`);
+
+    if (path === "/sign-transaction" && typeof body.transaction === "string") {
+      const tx = VersionedTransaction.deserialize(Buffer.from(body.transaction, "base64"));
+      const signers = tx.message.staticAccountKeys.slice(0, tx.message.header.numRequiredSignatures);
+      if (!signers.some((key) => key.equals(keypair.publicKey))) {
+        throw new Error(`Transaction does not require a signature from ${wallet}`);
+      }
+      return signer.signMessage(tx.message.serialize());
+    }
+    if (path === "/sign-message" && typeof body.message === "string") {
+      return signer.signMessage(Buffer.from(body.message, "base64"));
+    }
+    throw new Error(`Unknown request ${path}`);
+  };
+
+  const server = createServer((req, res) => {
+    if (req.method !== "POST") return respond(res, 405, { error: "POST only" });
+    if (options.authToken && req.headers.authorization !== `Bearer ${options.authToken}`) {
+      return respond(res, 401, { error: "Unauthorized" });
+    }
+    readBody(req)
+      .then((raw) => new Promise<string>((resolve) => setTimeout(resolve, options.responseDelayMs ?? 0, raw)))
+      .then((raw) => sign(req.url ?? "", JSON.parse(raw)))
+      .then((signature) => respond(res, 200, { signature: bs58.encode(signature) }))
+      .catch((error) => respond(res, 400, { error: String(error instanceof Error ? error.message : error) }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,130 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { SPENDING_DEFAULTS } from "./constants";
+import type { IQSpendRecord, IQSpendingStatus } from "./types";
+
+/**
+ * Options for the spending guard
+ */
+export interface SpendingGuardOptions {
+  /** Most lamports spent in any hour (0 = no limit) */
+  hourlyBudgetLamports: number;
+  /** Most lamports spent in any 24 hours (0 = no limit) */
+  dailyBudgetLamports: number;
+  /** Persists the spend ledger */
+  persist: (records: IQSpendRecord[]) => Promise<void>;
+  logger: { debug: (msg: string) => void };
+}
+
+/**
+ * Result of a budget check
+ */
+export interface SpendingCheck {
+  allowed: boolean;
+  /** Budget that is used up */
+  period?: "hourly" | "daily";
+  /** Budget and amount spent in that period (lamports) */
+  budget?: number;
+  spent?: number;
+}
+
+/**
+ * SpendingGuard - keeps hourly and daily on-chain spending within budget
+ *
+ * Each settled write is recorded with the lamports it cost, and writes are refused
+ * once the last hour's or the last 24 hours' spending reaches its budget. Spending is
+ * known only after a transaction lands, so writes already queued can overshoot a
+ * budget by their own cost. The ledger is persisted so budgets hold across restarts.
+ */
+export class SpendingGuard {
+  private records: IQSpendRecord[] = [];
+
+  constructor(private options: SpendingGuardOptions) {}
+
+  /**
+   * Restore records persisted by a previous run
+   */
+  restore(records: IQSpendRecord[]): void {
+    const known = new Set(this.records.map((r) => r.signature));
+    this.records.push(...records.filter((r) => !known.has(r.signature)));
+    this.prune();
+  }
+
+  /**
+   * Record what a transaction cost; a signature is only counted once
+   */
+  record(record: IQSpendRecord): void {
+    if (this.records.some((r) => r.signature === record.signature)) return;
+    this.records.push(record);
+    this.prune();
+    void this.save();
+  }
+
+  /**
+   * Whether another write fits in the hourly and daily budgets
+   */
+  check(): SpendingCheck {
+    const { hourlyBudgetLamports, dailyBudgetLamports } = this.options;
+    const hourly = this.spentSince(Date.now() - SPENDING_DEFAULTS.hourMs);
+    if (hourlyBudgetLamports > 0 && hourly >= hourlyBudgetLamports) {
+      return { allowed: false, period: "hourly", budget: hourlyBudgetLamports, spent: hourly };
+    }
+    const daily = this.spentSince(Date.now() - SPENDING_DEFAULTS.dayMs);
+    if (dailyBudgetLamports > 0 && daily >= dailyBudgetLamports) {
+      return { allowed: false, period: "daily", budget: dailyBudgetLamports, spent: daily };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Spending and remaining budgets in SOL; balance fields are filled in by the service
+   */
+  getStatus(): Omit<IQSpendingStatus, "minBalance" | "lowBalance"> {
+    const { hourlyBudgetLamports, dailyBudgetLamports } = this.options;
+    const hourly = this.spentSince(Date.now() - SPENDING_DEFAULTS.hourMs);
+    const daily = this.spentSince(Date.now() - SPENDING_DEFAULTS.dayMs);
+    const remaining = (budget: number, spent: number) =>
+      budget > 0 ? Math.max(0, budget - spent) / LAMPORTS_PER_SOL : null;
+    return {
+      spentLastHour: hourly / LAMPORTS_PER_SOL,
+      spentLastDay: daily / LAMPORTS_PER_SOL,
+      hourlyBudget: hourlyBudgetLamports / LAMPORTS_PER_SOL,
+      dailyBudget: dailyBudgetLamports / LAMPORTS_PER_SOL,
+      hourlyRemaining: remaining(hourlyBudgetLamports, hourly),
+      dailyRemaining: remaining(dailyBudgetLamports, daily),
+    };
+  }
+
+  private spentSince(since: number): number {
+    return this.records.filter((r) => r.at > since).reduce((sum, r) => sum + r.lamports, 0);
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - SPENDING_DEFAULTS.dayMs;
+    this.records = this.records.filter((r) => r.at > cutoff);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.options.persist(this.records);
+    } catch (error) {
+      this.options.logger.debug(`Could not persist spend ledger: ${error}`);
+    }
+  }
+}
+
+/**
+ * One-line spending summary for the agent's context
+ */
+export function formatSpendingStatus(status: IQSpendingStatus): string {
+  const sol = (n: number) => `${Number(n.toFixed(6))} SOL`;
+  const parts = [
+    status.hourlyRemaining === null
+      ? `${sol(status.spentLastHour)} spent in the last hour`
+      : `${sol(status.hourlyRemaining)} of ${sol(status.hourlyBudget)} left this hour`,
+    status.dailyRemaining === null
+      ? `${sol(status.spentLastDay)} spent in the last 24h`
+      : `${sol(status.dailyRemaining)} of ${sol(status.dailyBudget)} left today`,
+  ];
+  const low = status.lowBalance ? ` - balance below the ${sol(status.minBalance)} minimum, writes are paused` : "";
+  return `${parts.join(", ")}${low}`;
+}
@@ -0,0 +1,164 @@
+import { type Connection, PublicKey } from "@solana/web3.js";
+import type { IQChatroom, IQSubscriptionMode } from "./types";
+
+/**
+ * Options for the chatroom subscription manager
+ */
+export interface ChatroomSubscriptionOptions {
+  /** "websocket" uses onLogs notifications, "poll" uses adaptive polling only */
+  mode: IQSubscriptionMode;
+  /** Solana connection (required for websocket mode) */
+  connection: Connection | null;
+  /** Fastest poll interval, used right after activity */
+  minIntervalMs: number;
+  /** Slowest poll interval, reached after a room stays quiet */
+  maxIntervalMs: number;
+  /** Fetch and process new messages for a chatroom; resolves to the number of new messages */
+  fetchNew: (chatroomName: string) => Promise<number>;
+  /** Logger for subscription diagnostics */
+  logger: { debug: (msg: string) => void; warn: (msg: string) => void };
+}
+
+interface RoomState {
+  chatroom: IQChatroom;
+  intervalMs: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  logSubscriptionId: number | null;
+  inFlight: boolean;
+  rerun: boolean;
+}
+
+/** Interval multiplier applied after a poll that found nothing */
+const BACKOFF_FACTOR = 1.5;
+
+/** Delay between an onLogs notification and the fetch, so readers can index the new row */
+const NOTIFY_DELAY_MS = 1500;
+
+/**
+ * ChatroomSubscriptions - delivers new chatroom messages into one pipeline
+ *
+ * In "websocket" mode each chatroom's table PDA is watched with `Connection.onLogs`
+ * and a fetch runs when the table is written to; a slow safety poll at the maximum
+ * interval catches notifications dropped by the RPC. In "poll" mode each room is
+ * polled on its own timer: the interval resets to the minimum when new messages
+ * arrive and backs off towards the maximum while the room is quiet.
+ */
+export class ChatroomSubscriptions {
+  private rooms: Map<string, RoomState> = new Map();
+  private stopped = false;
+
+  constructor(private options: ChatroomSubscriptionOptions) {}
+
+  subscribe(chatroom: IQChatroom): void {
+    const key = chatroom.name.toLowerCase();
+    if (this.rooms.has(key) || this.stopped) return;
+
+    const state: RoomState = {
+      chatroom,
+      intervalMs: this.options.minIntervalMs,
+      timer: null,
+      logSubscriptionId: null,
+      inFlight: false,
+      rerun: false,
+    };
+    this.rooms.set(key, state);
+
+    if (this.options.mode === "websocket" && this.options.connection) {
+      try {
+        state.logSubscriptionId = this.options.connection.onLogs(
+          new PublicKey(chatroom.tablePda),
+          () => this.schedule(state, NOTIFY_DELAY_MS),
+          "confirmed"
+        );
+        // Safety net for dropped notifications
+        state.intervalMs = this.options.maxIntervalMs;
+      } catch (error) {
+        this.options.logger.warn(
+          `onLogs subscription failed for ${chatroom.name}, falling back to polling: ${error}`
+        );
+      }
+    }
+
+    // Initial fetch picks up anything written while we were offline
+    this.schedule(state, 0);
+  }
+
+  async unsubscribe(chatroomName: string): Promise<void> {
+    const key = chatroomName.toLowerCase();
+    const state = this.rooms.get(key);
+    if (!state) return;
+
+    this.rooms.delete(key);
+    if (state.timer) clearTimeout(state.timer);
+    if (state.logSubscriptionId !== null && this.options.connection) {
+      try {
+        await this.options.connection.removeOnLogsListener(state.logSubscriptionId);
+      } catch (error) {
+        this.options.logger.debug(`Failed to remove onLogs listener for ${chatroomName}: ${error}`);
+      }
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const state of Array.from(this.rooms.values())) {
+      await this.unsubscribe(state.chatroom.name);
+    }
+  }
+
+  /**
+   * Current poll interval per chatroom (for diagnostics)
+   */
+  getIntervals(): Record<string, number> {
+    const intervals: Record<string, number> = {};
+    for (const state of this.rooms.values()) {
+      intervals[state.chatroom.name] = state.intervalMs;
+    }
+    return intervals;
+  }
+
+  private schedule(state: RoomState, delayMs: number): void {
+    if (this.stopped || !this.isActive(state)) return;
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      void this.run(state);
+    }, delayMs);
+  }
+
+  private async run(state: RoomState): Promise<void> {
+    // A notification during a fetch re-runs it once the current fetch finishes
+    if (state.inFlight) {
+      state.rerun = true;
+      return;
+    }
+    state.inFlight = true;
+
+    let found = 0;
+    try {
+      found = await this.options.fetchNew(state.chatroom.name);
+    } catch (error) {
+      this.options.logger.debug(`Fetch error for ${state.chatroom.name}: ${error}`);
+    } finally {
+      state.inFlight = false;
+    }
+
+    if (state.logSubscriptionId === null) {
+      state.intervalMs =
+        found > 0
+          ? this.options.minIntervalMs
+          : Math.min(Math.round(state.intervalMs * BACKOFF_FACTOR), this.options.maxIntervalMs);
+    }
+
+    if (state.rerun) {
+      state.rerun = false;
+      this.schedule(state, 0);
+    } else {
+      this.schedule(state, state.intervalMs);
+    }
+  }
+
+  private isActive(state: RoomState): boolean {
+    return this.rooms.get(state.chatroom.name.toLowerCase()) === state;
+  }
+}
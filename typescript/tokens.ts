@@ -0,0 +1,104 @@
+import { type Connection, PublicKey } from "@solana/web3.js";
+import { PROGRAM_IDS, TOKEN_DEFAULTS } from "./constants";
+import type { IQTokenBalance, IQTokenMetadata } from "./types";
+
+const METADATA_PROGRAM = new PublicKey(PROGRAM_IDS.tokenMetadata);
+
+/**
+ * Looks up display metadata (symbol, name) for token mints
+ */
+export interface TokenMetadataResolver {
+  /** Metadata for the mints it knows; unknown mints are left out. Should not throw for a single bad mint. */
+  resolve(mints: string[]): Promise<Record<string, IQTokenMetadata>>;
+}
+
+/**
+ * Fixed metadata, e.g. for well-known mints or tests
+ */
+export class StaticTokenMetadataResolver implements TokenMetadataResolver {
+  constructor(private metadata: Record<string, IQTokenMetadata>) {}
+
+  async resolve(mints: string[]): Promise<Record<string, IQTokenMetadata>> {
+    const found: Record<string, IQTokenMetadata> = {};
+    for (const mint of mints) {
+      if (this.metadata[mint]) found[mint] = this.metadata[mint];
+    }
+    return found;
+  }
+}
+
+/**
+ * Read a borsh string (u32 length prefix) from a Metaplex metadata account
+ */
+function readBorshString(data: Buffer, offset: number): { value: string; next: number } {
+  const length = data.readUInt32LE(offset);
+  const start = offset + 4;
+  return { value: data.subarray(start, start + length).toString("utf8").replace(/\0/g, "").trim(), next: start + length };
+}
+
+/**
+ * Reads metadata from chain: the Metaplex metadata account, or for Token-2022 mints
+ * the mint's token metadata extension
+ */
+export class OnChainTokenMetadataResolver implements TokenMetadataResolver {
+  constructor(private connection: Connection) {}
+
+  async resolve(mints: string[]): Promise<Record<string, IQTokenMetadata>> {
+    const found: Record<string, IQTokenMetadata> = {};
+
+    for (let i = 0; i < mints.length; i += TOKEN_DEFAULTS.accountBatchSize) {
+      const batch = mints.slice(i, i + TOKEN_DEFAULTS.accountBatchSize);
+
+      // Metaplex: key (1) + update authority (32) + mint (32), then name and symbol
+      const metadataPdas = batch.map(
+        (mint) =>
+          PublicKey.findProgramAddressSync(
+            [Buffer.from("metadata"), METADATA_PROGRAM.toBuffer(), new PublicKey(mint).toBuffer()],
+            METADATA_PROGRAM
+          )[0]
+      );
+      const accounts = await this.connection.getMultipleAccountsInfo(metadataPdas);
+      accounts.forEach((account, index) => {
+        if (!account) return;
+        try {
+          const name = readBorshString(account.data, 65);
+          const symbol = readBorshString(account.data, name.next);
+          found[batch[index]] = { name: name.value || undefined, symbol: symbol.value || undefined };
+        } catch {
+          // Malformed metadata; leave the mint unresolved
+        }
+      });
+
+      // Token-2022 mints may carry their metadata in an extension instead
+      const missing = batch.filter((mint) => !found[mint]);
+      if (missing.length === 0) continue;
+      const { value: mintAccounts } = await this.connection.getMultipleParsedAccounts(missing.map((m) => new PublicKey(m)));
+      mintAccounts.forEach((account, index) => {
+        const data = account?.data;
+        if (!data || Buffer.isBuffer(data)) return;
+        const extensions = (data.parsed?.info?.extensions ?? []) as { extension: string; state?: Record<string, unknown> }[];
+        const state = extensions.find((e) => e.extension === "tokenMetadata")?.state;
+        if (!state) return;
+        found[missing[index]] = {
+          name: typeof state.name === "string" && state.name ? state.name : undefined,
+          symbol: typeof state.symbol === "string" && state.symbol ? state.symbol : undefined,
+        };
+      });
+    }
+
+    return found;
+  }
+}
+
+/**
+ * One-line holdings summary, largest first, e.g. "1,200 BONK, 15.5 USDC and 3 more"
+ */
+export function formatTokenBalances(balances: IQTokenBalance[], max: number = TOKEN_DEFAULTS.summaryLimit): string {
+  if (balances.length === 0) return "no tokens";
+  const shown = balances.slice(0, max).map((b) => {
+    const amount = b.uiAmount.toLocaleString("en-US", { maximumFractionDigits: Math.min(b.decimals, 4) });
+    return `${amount} ${b.symbol ?? `${b.mint.slice(0, 4)}…${b.mint.slice(-4)}`}`;
+  });
+  const rest = balances.length - shown.length;
+  return rest > 0 ? `${shown.join(", ")} and ${rest} more` : shown.join(", ");
+}
@@ -0,0 +1,217 @@
+import type { Commitment, Connection } from "@solana/web3.js";
+import type { IQTransactionKind, IQTransactionRecord } from "./types";
+
+/**
+ * Options for the transaction manager
+ */
+export interface TransactionManagerOptions {
+  connection: Connection;
+  /** Commitment a transaction must reach to count as confirmed */
+  commitment: Commitment;
+  /** Resends allowed after the blockhash expires */
+  maxRetries: number;
+  /** Interval between status checks (ms) */
+  pollIntervalMs: number;
+  /** How long settled records are kept for lookups (ms) */
+  retentionMs: number;
+  /** Called when a transaction confirms or finally fails */
+  onSettled: (record: IQTransactionRecord) => void;
+  logger: { debug: (msg: string) => void; warn: (msg: string) => void };
+}
+
+/**
+ * A write to submit and track
+ */
+export interface TransactionSubmission {
+  kind: IQTransactionKind;
+  messageId?: string;
+  chatroom?: string;
+  table?: string;
+  /** Builds, signs and sends the transaction with a fresh blockhash; resolves to its signature */
+  send: () => Promise<string>;
+}
+
+interface TrackedTransaction {
+  record: IQTransactionRecord;
+  send: () => Promise<string>;
+  lastValidBlockHeight: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const COMMITMENT_RANK: Record<string, number> = { processed: 0, confirmed: 1, finalized: 2 };
+
+/**
+ * TransactionManager - tracks on-chain writes from submission to confirmation
+ *
+ * Each write is recorded as pending and its signature status is polled until it
+ * reaches the configured commitment. If the blockhash expires before the transaction
+ * lands, it is resent (the send callback fetches a fresh blockhash) up to `maxRetries`
+ * times. Records can be looked up by signature or message id.
+ */
+export class TransactionManager {
+  private tracked: Map<string, TrackedTransaction> = new Map();
+  private bySignature: Map<string, IQTransactionRecord> = new Map();
+  private byMessageId: Map<string, IQTransactionRecord[]> = new Map();
+  private stopped = false;
+
+  constructor(private options: TransactionManagerOptions) {}
+
+  /**
+   * Send a transaction and start tracking it. Resolves once the first attempt is submitted.
+   */
+  async submit(submission: TransactionSubmission): Promise<IQTransactionRecord> {
+    const signature = await submission.send();
+    const { lastValidBlockHeight } = await this.options.connection.getLatestBlockhash();
+
+    const now = Date.now();
+    const record: IQTransactionRecord = {
+      id: signature,
+      signature,
+      signatures: [signature],
+      kind: submission.kind,
+      messageId: submission.messageId,
+      chatroom: submission.chatroom,
+      table: submission.table,
+      status: "pending",
+      attempts: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.bySignature.set(signature, record);
+    if (record.messageId) {
+      const records = this.byMessageId.get(record.messageId) ?? [];
+      records.push(record);
+      this.byMessageId.set(record.messageId, records);
+    }
+
+    const entry: TrackedTransaction = { record, send: submission.send, lastValidBlockHeight, timer: null };
+    this.tracked.set(record.id, entry);
+    this.scheduleCheck(entry);
+
+    return record;
+  }
+
+  getBySignature(signature: string): IQTransactionRecord | undefined {
+    return this.bySignature.get(signature);
+  }
+
+  getByMessageId(messageId: string): IQTransactionRecord[] {
+    return this.byMessageId.get(messageId) ?? [];
+  }
+
+  getPending(): IQTransactionRecord[] {
+    return Array.from(this.tracked.values()).map((t) => t.record);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const entry of this.tracked.values()) {
+      if (entry.timer) clearTimeout(entry.timer);
+    }
+    this.tracked.clear();
+  }
+
+  private scheduleCheck(entry: TrackedTransaction): void {
+    if (this.stopped) return;
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      void this.check(entry);
+    }, this.options.pollIntervalMs);
+  }
+
+  private async check(entry: TrackedTransaction): Promise<void> {
+    const { record } = entry;
+    try {
+      const { value } = await this.options.connection.getSignatureStatuses([record.signature]);
+      const status = value[0];
+
+      if (status?.err) {
+        this.settle(entry, "failed", `Transaction error: ${JSON.stringify(status.err)}`);
+        return;
+      }
+
+      if (status?.confirmationStatus && this.meetsCommitment(status.confirmationStatus)) {
+        this.settle(entry, "confirmed");
+        return;
+      }
+
+      // Not landed and the blockhash window has passed: it never will, so resend
+      if (!status) {
+        const blockHeight = await this.options.connection.getBlockHeight();
+        if (blockHeight > entry.lastValidBlockHeight) {
+          await this.retry(entry);
+          return;
+        }
+      }
+    } catch (error) {
+      this.options.logger.debug(`Status check failed for ${record.signature}: ${error}`);
+    }
+
+    this.scheduleCheck(entry);
+  }
+
+  private async retry(entry: TrackedTransaction): Promise<void> {
+    const { record } = entry;
+    if (record.attempts > this.options.maxRetries) {
+      this.settle(entry, "failed", `Blockhash expired after ${record.attempts} attempts`);
+      return;
+    }
+
+    this.options.logger.warn(`Transaction ${record.signature} expired, resending (attempt ${record.attempts + 1})`);
+    try {
+      const signature = await entry.send();
+      const { lastValidBlockHeight } = await this.options.connection.getLatestBlockhash();
+
+      record.signature = signature;
+      record.signatures.push(signature);
+      record.attempts++;
+      record.updatedAt = Date.now();
+      entry.lastValidBlockHeight = lastValidBlockHeight;
+      this.bySignature.set(signature, record);
+    } catch (error) {
+      record.attempts++;
+      record.error = String(error);
+      record.updatedAt = Date.now();
+      if (record.attempts > this.options.maxRetries) {
+        this.settle(entry, "failed", `Resend failed: ${error}`);
+        return;
+      }
+    }
+
+    this.scheduleCheck(entry);
+  }
+
+  private settle(entry: TrackedTransaction, status: "confirmed" | "failed", error?: string): void {
+    const { record } = entry;
+    record.status = status;
+    record.error = error;
+    record.updatedAt = Date.now();
+    this.tracked.delete(record.id);
+    this.options.onSettled(record);
+    this.prune();
+  }
+
+  /**
+   * Drop settled records older than the retention window
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.options.retentionMs;
+    for (const [signature, record] of this.bySignature) {
+      if (record.status === "pending" || record.updatedAt > cutoff) continue;
+      this.bySignature.delete(signature);
+      if (record.messageId) {
+        const remaining = this.getByMessageId(record.messageId).filter((r) => r !== record);
+        if (remaining.length > 0) {
+          this.byMessageId.set(record.messageId, remaining);
+        } else {
+          this.byMessageId.delete(record.messageId);
+        }
+      }
+    }
+  }
+
+  private meetsCommitment(confirmationStatus: string): boolean {
+    return (COMMITMENT_RANK[confirmationStatus] ?? -1) >= (COMMITMENT_RANK[this.options.commitment] ?? 1);
+  }
+}
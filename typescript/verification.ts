@@ -0,0 +1,167 @@
+import iqlabs from "@iqlabs-official/solana-sdk";
+import { type Connection, PublicKey, type VersionedTransactionResponse } from "@solana/web3.js";
+import bs58 from "bs58";
+import { createHash } from "crypto";
+import { type Signer, verifyEd25519 } from "./signers";
+import type { IQMessage, IQVerificationResult } from "./types";
+
+/** Domain separator so message signatures can't be replayed as other payloads */
+const SIGNING_DOMAIN = "iq-message:v2";
+
+/**
+ * Canonical bytes signed by the sender. Covers the logical message, so every part of
+ * a multi-part message carries the same signature over the full reassembled content,
+ * and the name of the table it is written to, so the row can't be replayed in another
+ * chatroom or DM.
+ */
+export function messageSigningPayload(msg: IQMessage, table: string): Uint8Array {
+  return Buffer.from(
+    JSON.stringify([
+      SIGNING_DOMAIN,
+      table,
+      msg.id,
+      msg.agent,
+      msg.wallet,
+      msg.content,
+      msg.timestamp,
+      msg.reply_to ?? null,
+      msg.media_tx ?? null,
+      // Encrypted messages sign the ciphertext; plain messages keep the original payload
+      ...(msg.envelope ? [msg.envelope.to, msg.envelope.epk, msg.envelope.iv, msg.envelope.ct] : []),
+    ]),
+    "utf8"
+  );
+}
+
+/**
+ * Sign a message body for the table it is written to; returns a base58 signature
+ */
+export async function signMessageBody(msg: IQMessage, table: string, signer: Signer): Promise<string> {
+  return bs58.encode(await signer.signMessage(messageSigningPayload(msg, table)));
+}
+
+/**
+ * Check an embedded signature against the wallet the message claims and the table
+ * the message was read from
+ */
+export function verifyMessageSignature(msg: IQMessage, table: string): boolean {
+  if (!msg.sig) return false;
+  try {
+    return verifyEd25519(new PublicKey(msg.wallet), messageSigningPayload(msg, table), bs58.decode(msg.sig));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * SenderVerifier - checks that a message was really sent by the wallet it claims
+ *
+ * An embedded ed25519 signature is checked locally, against the table the message
+ * was read from. Without one, the message's
+ * `tx_sig` is fetched and the claimed wallet must have signed that transaction, the
+ * transaction must touch the chatroom's table, and the row it inscribed must be this
+ * message. Transaction lookups are cached.
+ */
+export class SenderVerifier {
+  private txResults: Map<string, IQVerificationResult> = new Map();
+
+  constructor(
+    private connection: Connection | null,
+    private logger: { debug: (msg: string) => void }
+  ) {}
+
+  async verify(msg: IQMessage, table: string, tablePda?: string): Promise<IQVerificationResult> {
+    if (msg.sig) {
+      return verifyMessageSignature(msg, table)
+        ? { verified: true, method: "signature" }
+        : {
+            verified: false,
+            method: "signature",
+            reason: "Embedded signature does not match the claimed wallet and this chatroom",
+          };
+    }
+
+    if (msg.tx_sig && this.connection) {
+      // Only a reassembled message's newest part is in its tx_sig, so the others can't be checked
+      if ((msg.part_total ?? 1) > 1) {
+        return { verified: false, method: "transaction", reason: "Multi-part messages need an embedded signature" };
+      }
+
+      // Keyed by the message body too, since another row can point at the same transaction
+      const body = createHash("sha256").update(messageSigningPayload(msg, table)).digest("hex");
+      const cacheKey = `${msg.tx_sig}:${body}`;
+      const cached = this.txResults.get(cacheKey);
+      if (cached) return cached;
+
+      const result = await this.verifyTransaction(msg.tx_sig, msg, table, tablePda);
+      // Lookup failures are not cached so they can be retried
+      if (result.reason !== "lookup_failed") this.txResults.set(cacheKey, result);
+      return result;
+    }
+
+    return { verified: false, method: "none", reason: "No signature or transaction to verify against" };
+  }
+
+  private async verifyTransaction(
+    txSig: string,
+    msg: IQMessage,
+    table: string,
+    tablePda?: string
+  ): Promise<IQVerificationResult> {
+    try {
+      const tx = await this.connection!.getTransaction(txSig, { maxSupportedTransactionVersion: 0 });
+      if (!tx) {
+        return { verified: false, method: "transaction", reason: "lookup_failed" };
+      }
+
+      const message = tx.transaction.message;
+      const keys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+      const signers: string[] = [];
+      for (let i = 0; i < message.header.numRequiredSignatures; i++) {
+        const key = keys.get(i);
+        if (key) signers.push(key.toBase58());
+      }
+
+      if (!signers.includes(msg.wallet)) {
+        return { verified: false, method: "transaction", reason: "Claimed wallet did not sign the transaction" };
+      }
+
+      if (tablePda) {
+        const touchesTable = keys.keySegments().some((segment) => segment.some((k) => k.toBase58() === tablePda));
+        if (!touchesTable) {
+          return { verified: false, method: "transaction", reason: "Transaction does not write to this chatroom" };
+        }
+      }
+
+      const row = await inscribedRow(tx);
+      if (!row || !Buffer.from(messageSigningPayload(row, table)).equals(messageSigningPayload(msg, table))) {
+        return { verified: false, method: "transaction", reason: "Transaction did not write this message" };
+      }
+
+      return { verified: true, method: "transaction" };
+    } catch (error) {
+      this.logger.debug(`Transaction lookup failed for ${txSig}: ${error}`);
+      return { verified: false, method: "transaction", reason: "lookup_failed" };
+    }
+  }
+}
+
+/**
+ * The row a transaction inscribed, or null when it wrote none or the data isn't a JSON row
+ */
+async function inscribedRow(tx: VersionedTransactionResponse): Promise<IQMessage | null> {
+  let data: string | null;
+  try {
+    ({ data } = await iqlabs.reader.readUserInventoryCodeInFromTx(tx));
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("user_inventory_code_in instruction not found")) return null;
+    throw error;
+  }
+  if (!data) return null;
+  try {
+    const row = JSON.parse(data);
+    return row && typeof row === "object" && !Array.isArray(row) ? (row as IQMessage) : null;
+  } catch {
+    return null;
+  }
+}